@@ -88,8 +88,10 @@ const ALL_MODELS: ModelId[] = [
 interface TaskResult {
   task: string
   complexity: string
+  promptTokens: number
   tokensGenerated: number
   tokensPerSecond: number
+  timeToFirstTokenMs: number
   durationMs: number
   success: boolean
 }
@@ -129,7 +131,6 @@ async function benchmarkModel(modelId: ModelId): Promise<ModelResult | null> {
   console.log(`✅ Loaded in ${(loadTimeMs / 1000).toFixed(1)}s`)
 
   const taskResults: TaskResult[] = []
-  let totalTokens = 0
   let totalTime = 0
 
   // Run each task
@@ -147,14 +148,15 @@ async function benchmarkModel(modelId: ModelId): Promise<ModelResult | null> {
       })
 
       const durationMs = performance.now() - start
-      totalTokens += result.tokenCount
       totalTime += durationMs
 
       taskResults.push({
         task: task.name,
         complexity: task.complexity,
+        promptTokens: result.promptTokenCount,
         tokensGenerated: result.tokenCount,
         tokensPerSecond: result.tokensPerSecond,
+        timeToFirstTokenMs: result.timeToFirstTokenSeconds * 1000,
         durationMs,
         success: true
       })
@@ -163,15 +165,17 @@ async function benchmarkModel(modelId: ModelId): Promise<ModelResult | null> {
       const preview = result.text.trim().slice(0, 80) + (result.text.length > 80 ? "..." : "")
       console.log(`   Response: "${preview}"`)
       console.log(
-        `   ⚡ ${result.tokensPerSecond.toFixed(1)} tok/s | ${result.tokenCount} tokens | ${(durationMs / 1000).toFixed(2)}s`
+        `   ⚡ ${result.tokensPerSecond.toFixed(1)} tok/s | ${result.promptTokenCount} prompt + ${result.tokenCount} generated tokens | TTFT ${(result.timeToFirstTokenSeconds * 1000).toFixed(0)}ms | ${(durationMs / 1000).toFixed(2)}s`
       )
     } catch (error) {
       console.log(`   ❌ Failed: ${error}`)
       taskResults.push({
         task: task.name,
         complexity: task.complexity,
+        promptTokens: 0,
         tokensGenerated: 0,
         tokensPerSecond: 0,
+        timeToFirstTokenMs: 0,
         durationMs: 0,
         success: false
       })
@@ -180,7 +184,12 @@ async function benchmarkModel(modelId: ModelId): Promise<ModelResult | null> {
 
   await engine.dispose()
 
-  const avgTokensPerSecond = totalTime > 0 ? (totalTokens / totalTime) * 1000 : 0
+  // Average decode throughput of successful tasks (excludes prompt evaluation)
+  const successful = taskResults.filter((t) => t.success)
+  const avgTokensPerSecond =
+    successful.length > 0
+      ? successful.reduce((sum, t) => sum + t.tokensPerSecond, 0) / successful.length
+      : 0
 
   return {
     modelId,
@@ -234,7 +243,7 @@ function formatDetailedResults(results: ModelResult[]): string {
     for (const task of r.tasks) {
       if (task.success) {
         lines.push(
-          `- ${task.task}: ${task.tokensPerSecond.toFixed(1)} tok/s (${task.tokensGenerated} tokens in ${(task.durationMs / 1000).toFixed(2)}s)`
+          `- ${task.task}: ${task.tokensPerSecond.toFixed(1)} tok/s (${task.promptTokens} prompt + ${task.tokensGenerated} generated tokens, TTFT ${task.timeToFirstTokenMs.toFixed(0)}ms, ${(task.durationMs / 1000).toFixed(2)}s total)`
         )
       } else {
         lines.push(`- ${task.task}: ❌ Failed`)
@@ -83,6 +83,21 @@ async function main() {
     console.log(`Response: ${chatResult.text}`)
     console.log(`Speed: ${chatResult.tokensPerSecond.toFixed(1)} tokens/sec`)
 
+    // Test reproducible sampling
+    console.log("\n--- Seed Test ---")
+
+    const seeded = { prompt: "Name three colors.", maxTokens: 30, temperature: 1, seed: 42 }
+    engine.resetSession()
+    const first = await engine.generate(seeded)
+    engine.resetSession()
+    const second = await engine.generate(seeded)
+
+    console.log(`Response: ${first.text}`)
+    if (first.text !== second.text) {
+      throw new Error(`Same seed gave different output:\n${first.text}\n---\n${second.text}`)
+    }
+    console.log("Identical output for identical seed")
+
     // Cleanup
     await engine.dispose()
     console.log("\nDone!")
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { createAbortScope } from "./abort"
+
+describe("createAbortScope", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("should not be aborted without signal or timeout", () => {
+    const scope = createAbortScope()
+    expect(scope.signal.aborted).toBe(false)
+    expect(scope.reason).toBeUndefined()
+    scope.dispose()
+  })
+
+  it("should follow the caller's signal", () => {
+    const controller = new AbortController()
+    const scope = createAbortScope(controller.signal)
+
+    controller.abort()
+
+    expect(scope.signal.aborted).toBe(true)
+    expect(scope.reason).toBe("signal")
+    scope.dispose()
+  })
+
+  it("should be aborted immediately for an already aborted signal", () => {
+    const scope = createAbortScope(AbortSignal.abort())
+    expect(scope.signal.aborted).toBe(true)
+    expect(scope.reason).toBe("signal")
+    scope.dispose()
+  })
+
+  it("should abort when the timeout elapses", () => {
+    vi.useFakeTimers()
+    const scope = createAbortScope(undefined, 100)
+
+    vi.advanceTimersByTime(99)
+    expect(scope.signal.aborted).toBe(false)
+
+    vi.advanceTimersByTime(1)
+    expect(scope.signal.aborted).toBe(true)
+    expect(scope.reason).toBe("timeout")
+    scope.dispose()
+  })
+
+  it("should stop following the signal after dispose", () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const scope = createAbortScope(controller.signal, 100)
+
+    scope.dispose()
+    controller.abort()
+    vi.advanceTimersByTime(100)
+
+    expect(scope.signal.aborted).toBe(false)
+  })
+})
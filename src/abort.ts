@@ -0,0 +1,61 @@
+/**
+ * Cancellation helpers
+ *
+ * Combines a caller-provided AbortSignal and an optional timeout into a single
+ * signal that can be handed to node-llama-cpp.
+ */
+
+/**
+ * A combined abort signal with cleanup
+ */
+export interface AbortScope {
+  /** Signal that aborts when the caller's signal aborts or the timeout elapses */
+  readonly signal: AbortSignal
+
+  /** Why the scope was aborted, if it was */
+  readonly reason: "signal" | "timeout" | undefined
+
+  /** Remove listeners and clear the timer */
+  dispose(): void
+}
+
+/**
+ * Create an abort scope from an optional signal and timeout
+ *
+ * @param signal - Caller-provided signal to follow
+ * @param timeoutMs - Abort after this many milliseconds
+ */
+export function createAbortScope(signal?: AbortSignal, timeoutMs?: number): AbortScope {
+  const controller = new AbortController()
+  let reason: "signal" | "timeout" | undefined
+
+  const onAbort = () => {
+    reason ??= "signal"
+    controller.abort(signal?.reason)
+  }
+
+  if (signal?.aborted) {
+    onAbort()
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true })
+  }
+
+  const timer =
+    timeoutMs !== undefined && !controller.signal.aborted
+      ? setTimeout(() => {
+          reason ??= "timeout"
+          controller.abort(new Error(`Generation timed out after ${timeoutMs}ms`))
+        }, timeoutMs)
+      : undefined
+
+  return {
+    signal: controller.signal,
+    get reason() {
+      return reason
+    },
+    dispose() {
+      signal?.removeEventListener("abort", onAbort)
+      clearTimeout(timer)
+    }
+  }
+}
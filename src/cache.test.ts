@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { mkdtemp, readdir, rm, utimes, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { resolveModelFile } from "node-llama-cpp"
+import { createModelCache } from "./cache"
+import { CorruptModelError, ModelNotCachedError } from "./errors"
+import { hashFile } from "./integrity"
+import { modelRegistry } from "./registry"
+
+vi.mock("node-llama-cpp", () => ({
+  resolveModelFile: vi.fn()
+}))
+
+const mockResolveModelFile = vi.mocked(resolveModelFile)
+
+describe("createModelCache", () => {
+  let directory: string
+
+  // Write a file that was last used `ageSeconds` ago
+  async function addFile(fileName: string, sizeBytes: number, ageSeconds: number) {
+    const path = join(directory, fileName)
+    await writeFile(path, Buffer.alloc(sizeBytes))
+    const time = Date.now() / 1000 - ageSeconds
+    await utimes(path, time, time)
+  }
+
+  // Write a minimal GGUF v3 file and let the mocked download return it
+  async function addModelFile(download: boolean) {
+    const path = join(directory, "model.gguf")
+    await writeFile(path, Buffer.from([0x47, 0x47, 0x55, 0x46, 3, 0, 0, 0, 1, 2, 3, 4]))
+    mockResolveModelFile.mockImplementation((_uri, options) => {
+      if (download && typeof options === "object") {
+        options.onProgress?.({ downloadedSize: 50, totalSize: 200 })
+      }
+      return Promise.resolve(path)
+    })
+    return path
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    directory = await mkdtemp(join(tmpdir(), "native-llm-cache-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  describe("pull", () => {
+    it("should download a registered model into the cache directory", async () => {
+      const path = await addModelFile(true)
+      const cache = createModelCache({ directory, huggingFaceToken: "hf_token" })
+
+      expect(await cache.pull("qwen")).toBe(path)
+      expect(mockResolveModelFile).toHaveBeenCalledWith(
+        "hf:unsloth/Qwen3-8B-GGUF/Qwen3-8B-Q4_K_M.gguf",
+        expect.objectContaining({
+          directory,
+          download: "auto",
+          cli: false,
+          tokens: { huggingFace: "hf_token" }
+        })
+      )
+    })
+
+    it("should download the requested variant", async () => {
+      await addModelFile(true)
+      await createModelCache({ directory }).pull("qwen3-8b", { quantization: "Q8_0" })
+
+      expect(mockResolveModelFile.mock.calls[0]?.[0]).toBe(
+        "hf:unsloth/Qwen3-8B-GGUF/Qwen3-8B-Q8_0.gguf"
+      )
+    })
+
+    it("should report progress and pass the signal", async () => {
+      await addModelFile(true)
+      const controller = new AbortController()
+      const onProgress = vi.fn()
+
+      await createModelCache({ directory }).pull("phi-4", { onProgress, signal: controller.signal })
+
+      expect(onProgress).toHaveBeenCalledWith({ downloadedBytes: 50, totalBytes: 200 })
+      expect(mockResolveModelFile.mock.calls[0]?.[1]).toMatchObject({ signal: controller.signal })
+    })
+
+    it("should fail with ModelNotCachedError when offline", async () => {
+      mockResolveModelFile.mockRejectedValue(new Error("download is disabled"))
+      const cache = createModelCache({ directory, offline: true })
+
+      const error = await cache.pull("phi-4").catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(ModelNotCachedError)
+      expect(error).toMatchObject({ model: "phi-4", directory })
+      expect(mockResolveModelFile.mock.calls[0]?.[1]).toMatchObject({ download: false })
+    })
+
+    it("should pass other errors through when online", async () => {
+      mockResolveModelFile.mockRejectedValue(new Error("network down"))
+      await expect(createModelCache({ directory }).pull("phi-4")).rejects.toThrow("network down")
+    })
+  })
+
+  describe("verification", () => {
+    afterEach(() => {
+      modelRegistry.unregister("checked")
+    })
+
+    function register(checksums: { sizeBytes?: number; sha256?: string }) {
+      modelRegistry.registerModel("checked", {
+        name: "Checked",
+        repo: "owner/checked-GGUF",
+        file: "model.gguf",
+        contextLength: 4096,
+        ...checksums
+      })
+    }
+
+    it("should check the SHA-256 after a download", async () => {
+      const path = await addModelFile(true)
+      register({ sha256: await hashFile(path) })
+
+      expect(await createModelCache({ directory }).pull("checked")).toBe(path)
+    })
+
+    it("should quarantine a download with the wrong SHA-256", async () => {
+      const path = await addModelFile(true)
+      register({ sha256: "0".repeat(64) })
+
+      const error = await createModelCache({ directory })
+        .pull("checked")
+        .catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(CorruptModelError)
+      expect(error).toMatchObject({ path, quarantinedPath: `${path}.corrupt` })
+      expect(await readdir(directory)).toEqual(["model.gguf.corrupt"])
+    })
+
+    it("should skip the SHA-256 for cached files but check their size", async () => {
+      await addModelFile(false)
+      register({ sha256: "0".repeat(64) })
+      await expect(createModelCache({ directory }).pull("checked")).resolves.toBeDefined()
+
+      modelRegistry.unregister("checked")
+      register({ sizeBytes: 1 })
+      await expect(createModelCache({ directory }).pull("checked")).rejects.toThrow(
+        "expected 1 bytes, found 12"
+      )
+    })
+  })
+
+  describe("list", () => {
+    it("should list cached model files with their models", async () => {
+      await addFile("hf_unsloth_Qwen3-8B-Q8_0.gguf", 30, 0)
+      await addFile("hf_bartowski_phi-4-Q4_K_M.gguf", 20, 0)
+      await addFile("notes.txt", 10, 0)
+      await addFile("unknown.gguf", 10, 0)
+
+      const files = await createModelCache({ directory }).list()
+
+      expect(
+        files.map(({ fileName, sizeBytes, modelId, quantization }) => ({
+          fileName,
+          sizeBytes,
+          modelId,
+          quantization
+        }))
+      ).toEqual([
+        {
+          fileName: "hf_bartowski_phi-4-Q4_K_M.gguf",
+          sizeBytes: 20,
+          modelId: "phi-4",
+          quantization: "Q4_K_M"
+        },
+        {
+          fileName: "hf_unsloth_Qwen3-8B-Q8_0.gguf",
+          sizeBytes: 30,
+          modelId: "qwen3-8b",
+          quantization: "Q8_0"
+        },
+        { fileName: "unknown.gguf", sizeBytes: 10, modelId: undefined, quantization: undefined }
+      ])
+      expect(files[0].path).toBe(join(directory, "hf_bartowski_phi-4-Q4_K_M.gguf"))
+    })
+
+    it("should list quarantined files with their models", async () => {
+      await addFile("hf_unsloth_Qwen3-8B-Q8_0.gguf.corrupt", 30, 0)
+      await addFile("hf_unsloth_Qwen3-8B-Q4_K_M.gguf", 20, 0)
+
+      const files = await createModelCache({ directory }).list()
+
+      expect(
+        files.map(({ fileName, modelId, quantization, quarantined }) => ({
+          fileName,
+          modelId,
+          quantization,
+          quarantined
+        }))
+      ).toEqual([
+        {
+          fileName: "hf_unsloth_Qwen3-8B-Q4_K_M.gguf",
+          modelId: "qwen3-8b",
+          quantization: "Q4_K_M",
+          quarantined: false
+        },
+        {
+          fileName: "hf_unsloth_Qwen3-8B-Q8_0.gguf.corrupt",
+          modelId: "qwen3-8b",
+          quantization: "Q8_0",
+          quarantined: true
+        }
+      ])
+    })
+
+    it("should return an empty list for a missing directory", async () => {
+      expect(await createModelCache({ directory: join(directory, "missing") }).list()).toEqual([])
+    })
+  })
+
+  describe("remove", () => {
+    it("should remove all variants of a model", async () => {
+      await addFile("hf_unsloth_Qwen3-8B-Q8_0.gguf", 30, 0)
+      await addFile("hf_unsloth_Qwen3-8B-Q4_K_M.gguf", 20, 0)
+      await addFile("hf_bartowski_phi-4-Q4_K_M.gguf", 20, 0)
+
+      const removed = await createModelCache({ directory }).remove("qwen")
+
+      expect(removed).toHaveLength(2)
+      expect(await readdir(directory)).toEqual(["hf_bartowski_phi-4-Q4_K_M.gguf"])
+    })
+
+    it("should remove quarantined files of a model", async () => {
+      await addFile("hf_unsloth_Qwen3-8B-Q4_K_M.gguf.corrupt", 20, 0)
+
+      const removed = await createModelCache({ directory }).remove("qwen")
+
+      expect(removed.map((file) => file.quarantined)).toEqual([true])
+      expect(await readdir(directory)).toEqual([])
+    })
+
+    it("should remove a file by name", async () => {
+      await addFile("unknown.gguf", 10, 0)
+      const cache = createModelCache({ directory })
+
+      expect(await cache.remove("unknown.gguf")).toHaveLength(1)
+      expect(await cache.remove("unknown.gguf")).toEqual([])
+    })
+  })
+
+  describe("prune", () => {
+    it("should remove the least recently used files until under budget", async () => {
+      await addFile("old.gguf", 40, 300)
+      await addFile("middle.gguf", 40, 200)
+      await addFile("new.gguf", 40, 100)
+
+      const removed = await createModelCache({ directory }).prune(80)
+
+      expect(removed.map((file) => file.fileName)).toEqual(["old.gguf"])
+      expect((await readdir(directory)).sort()).toEqual(["middle.gguf", "new.gguf"])
+    })
+
+    it("should always remove quarantined files", async () => {
+      await addFile("model.gguf", 40, 300)
+      await addFile("broken.gguf.corrupt", 40, 0)
+
+      const removed = await createModelCache({ directory }).prune(100)
+
+      expect(removed.map((file) => file.fileName)).toEqual(["broken.gguf.corrupt"])
+      expect(await readdir(directory)).toEqual(["model.gguf"])
+    })
+
+    it("should keep everything within budget", async () => {
+      await addFile("model.gguf", 40, 0)
+      expect(await createModelCache({ directory }).prune(40)).toEqual([])
+    })
+  })
+})
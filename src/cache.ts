@@ -0,0 +1,335 @@
+/**
+ * Model download cache
+ *
+ * Downloads model files into a cache directory and keeps track of what is on
+ * disk. Uses the same directory and file names as node-llama-cpp, so models
+ * downloaded by `LLMEngine.initialize()` show up here as well.
+ */
+
+import { readdir, rm, stat } from "node:fs/promises"
+import { homedir } from "node:os"
+import { join } from "node:path"
+
+import { resolveModelFile, type ModelFileAccessTokens } from "node-llama-cpp"
+
+import { ModelNotCachedError } from "./errors.js"
+import { QUARANTINE_SUFFIX, verifyModelFile, type ModelChecksums } from "./integrity.js"
+import { getModelUri, modelRegistry, selectVariant } from "./registry.js"
+
+/** node-llama-cpp's default models directory */
+export const DEFAULT_CACHE_DIR = join(homedir(), ".node-llama-cpp", "models")
+
+/**
+ * Progress of a model download
+ */
+export interface DownloadProgress {
+  /** Bytes downloaded so far */
+  downloadedBytes: number
+
+  /** Total size of the download in bytes */
+  totalBytes: number
+}
+
+/**
+ * Options for `ModelCache.pull()`
+ */
+export interface PullOptions {
+  /** Quantization variant to download (default: the model's `quantization`) */
+  quantization?: string
+
+  /** Called as the download progresses */
+  onProgress?: (progress: DownloadProgress) => void
+
+  /** Cancels the download */
+  signal?: AbortSignal
+}
+
+/**
+ * A model file in the cache
+ */
+export interface CachedModel {
+  /** File name in the cache directory */
+  fileName: string
+
+  /** Absolute path of the file */
+  path: string
+
+  /** File size in bytes */
+  sizeBytes: number
+
+  /** When the file was last downloaded or read */
+  lastUsedAt: Date
+
+  /** Registered model the file belongs to, if any */
+  modelId?: string
+
+  /** Quantization of the file, if it belongs to a registered model */
+  quantization?: string
+
+  /** Whether the file failed verification and was renamed to `<file>.corrupt` */
+  quarantined: boolean
+}
+
+/**
+ * Options for `createModelCache()`
+ */
+export interface ModelCacheOptions {
+  /** Cache directory (default: `~/.node-llama-cpp/models`) */
+  directory?: string
+
+  /** HuggingFace token for gated models (default: HF_TOKEN environment variable) */
+  huggingFaceToken?: string
+
+  /** Never download; `pull()` fails with `ModelNotCachedError` if the file is missing */
+  offline?: boolean
+}
+
+/**
+ * Downloaded model files
+ */
+export interface ModelCache {
+  /** The cache directory */
+  readonly directory: string
+
+  /**
+   * Download a model unless it is cached already
+   *
+   * @param model - Model id, alias, or a HuggingFace URI or URL
+   * @returns Path of the model file
+   * @throws ModelNotCachedError if offline and the file is not cached
+   * @throws CorruptModelError if the file fails verification
+   */
+  pull(model: string, options?: PullOptions): Promise<string>
+
+  /** Model files in the cache, including quarantined ones, sorted by file name */
+  list(): Promise<CachedModel[]>
+
+  /**
+   * Delete the cached files of a model
+   *
+   * @param model - Model id or alias (all of its variants), or a file name from `list()`
+   * @returns The deleted files
+   */
+  remove(model: string): Promise<CachedModel[]>
+
+  /**
+   * Delete the least recently used files until the cache fits in a size budget
+   *
+   * Quarantined files are always deleted, since they are never loaded again.
+   *
+   * @param maxBytes - Total size to keep at most
+   * @returns The deleted files
+   */
+  prune(maxBytes: number): Promise<CachedModel[]>
+}
+
+/**
+ * Resolve a model file, downloading it unless offline
+ *
+ * Shared by `ModelCache.pull()` and `LLMEngine.initialize()`. The file is
+ * verified before it is returned: the SHA-256 only right after a download, the
+ * header and size every time. Corrupt downloads are quarantined.
+ *
+ * @param model - Name of the model for error messages
+ * @param uri - HuggingFace URI, URL or local path
+ * @param options.verify - Check the file (default: true); read-only callers
+ *   turn it off so they never quarantine a file
+ * @throws CorruptModelError if the file fails verification
+ */
+export async function resolveCachedModelFile(
+  model: string,
+  uri: string,
+  options: {
+    directory?: string
+    huggingFaceToken?: string
+    offline?: boolean
+    onProgress?: (progress: DownloadProgress) => void
+    signal?: AbortSignal
+    cli?: boolean
+    checksums?: ModelChecksums
+    verify?: boolean
+  }
+): Promise<string> {
+  const directory = options.directory ?? DEFAULT_CACHE_DIR
+  const tokens: ModelFileAccessTokens | undefined = options.huggingFaceToken
+    ? { huggingFace: options.huggingFaceToken }
+    : undefined
+  const onProgress = options.onProgress
+  // node-llama-cpp only reports progress when it downloads
+  const download = { started: false }
+
+  let path: string
+  try {
+    path = await resolveModelFile(uri, {
+      directory,
+      tokens,
+      download: options.offline ? false : "auto",
+      signal: options.signal,
+      cli: options.cli,
+      onProgress: ({ downloadedSize, totalSize }) => {
+        download.started = true
+        onProgress?.({ downloadedBytes: downloadedSize, totalBytes: totalSize })
+      }
+    })
+  } catch (error) {
+    // Without downloads, failing to resolve means the file is missing
+    if (options.offline) {
+      throw new ModelNotCachedError(model, directory, { cause: error })
+    }
+    throw error
+  }
+
+  if (options.verify === false) {
+    return path
+  }
+  const checksums = options.checksums ?? {}
+  await verifyModelFile(path, checksums, {
+    checkHash: download.started && checksums.sha256 !== undefined,
+    // Only downloaded files can be fetched again; local files are left alone
+    quarantine: isRemote(uri)
+  })
+  return path
+}
+
+/**
+ * Whether a model URI points to a file node-llama-cpp downloads
+ */
+export function isRemote(uri: string): boolean {
+  return /^(hf:|huggingface:|https?:\/\/)/.test(uri)
+}
+
+/**
+ * Find the registered model a cached file belongs to
+ *
+ * node-llama-cpp prefixes downloaded files with their source, e.g.
+ * `hf_unsloth_Qwen3-8B-Q4_K_M.gguf`.
+ */
+function identify(fileName: string): Pick<CachedModel, "modelId" | "quantization"> {
+  const matches = (file: string) => fileName === file || fileName.endsWith(`_${file}`)
+
+  for (const model of modelRegistry.list()) {
+    const variants = Object.entries(model.variants ?? {})
+    const variant = variants.find(([, entry]) => matches(entry.file))
+    if (variant) {
+      return { modelId: model.id, quantization: variant[0] }
+    }
+    if (matches(model.file)) {
+      return { modelId: model.id, quantization: model.quantization }
+    }
+  }
+  return {}
+}
+
+/**
+ * Create a model cache
+ *
+ * @example
+ * ```typescript
+ * const cache = createModelCache({ directory: "./models" })
+ * await cache.pull("qwen3-8b", {
+ *   onProgress: ({ downloadedBytes, totalBytes }) =>
+ *     console.log(`${((downloadedBytes / totalBytes) * 100).toFixed(0)}%`)
+ * })
+ * const engine = new LLMEngine({ model: "qwen3-8b", cacheDir: "./models", offline: true })
+ * ```
+ */
+export function createModelCache(options: ModelCacheOptions = {}): ModelCache {
+  const directory = options.directory ?? DEFAULT_CACHE_DIR
+  const huggingFaceToken = options.huggingFaceToken ?? process.env.HF_TOKEN
+
+  const list = async (): Promise<CachedModel[]> => {
+    let fileNames: string[]
+    try {
+      fileNames = await readdir(directory)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+
+    const models: CachedModel[] = []
+    for (const fileName of fileNames.sort()) {
+      const quarantined = fileName.endsWith(`.gguf${QUARANTINE_SUFFIX}`)
+      if (!quarantined && !fileName.endsWith(".gguf")) {
+        continue
+      }
+      const path = join(directory, fileName)
+      const stats = await stat(path)
+      if (stats.isFile()) {
+        models.push({
+          fileName,
+          path,
+          sizeBytes: stats.size,
+          lastUsedAt: new Date(Math.max(stats.atimeMs, stats.mtimeMs)),
+          ...identify(quarantined ? fileName.slice(0, -QUARANTINE_SUFFIX.length) : fileName),
+          quarantined
+        })
+      }
+    }
+    return models
+  }
+
+  const removeFiles = async (files: CachedModel[]) => {
+    for (const file of files) {
+      await rm(file.path, { force: true })
+    }
+    return files
+  }
+
+  return {
+    directory,
+
+    async pull(model, pullOptions = {}) {
+      const resolved = modelRegistry.resolve(model)
+      let uri = model
+      let checksums: ModelChecksums = {}
+      if (resolved) {
+        const { id, ...entry } = resolved
+        const selected =
+          pullOptions.quantization === undefined
+            ? entry
+            : selectVariant(id, entry, pullOptions.quantization)
+        uri = getModelUri(selected)
+        checksums = selected
+      } else if (pullOptions.quantization !== undefined) {
+        throw new Error(`quantization only applies to registered models; "${model}" is not one`)
+      }
+
+      return resolveCachedModelFile(model, uri, {
+        directory,
+        huggingFaceToken,
+        offline: options.offline,
+        onProgress: pullOptions.onProgress,
+        signal: pullOptions.signal,
+        cli: false,
+        checksums
+      })
+    },
+
+    list,
+
+    async remove(model) {
+      const files = await list()
+      const resolved = modelRegistry.resolve(model)
+      return removeFiles(
+        files.filter((file) => (resolved ? file.modelId === resolved.id : file.fileName === model))
+      )
+    },
+
+    async prune(maxBytes) {
+      const files = await list()
+      const removed = files.filter((file) => file.quarantined)
+      const usable = files.filter((file) => !file.quarantined)
+      let total = usable.reduce((sum, file) => sum + file.sizeBytes, 0)
+      for (const file of usable.sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime())) {
+        if (total <= maxBytes) {
+          break
+        }
+        removed.push(file)
+        total -= file.sizeBytes
+      }
+      return removeFiles(removed)
+    }
+  }
+}
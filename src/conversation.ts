@@ -0,0 +1,174 @@
+/**
+ * Conversation - An independent chat on a shared model
+ *
+ * Each conversation owns a context sequence and its chat history, so several
+ * users can chat through one engine without seeing each other's messages.
+ */
+
+import {
+  LlamaText,
+  type ChatHistoryItem,
+  type ChatModelFunctionCall,
+  type LlamaChatSession
+} from "node-llama-cpp"
+
+import type { ChatMessage, ChatOptions, GenerateResult, StreamEvent, ToolCall } from "./types.js"
+
+/**
+ * Runs prompts on a conversation's session; implemented by `LLMEngine`
+ */
+export interface ConversationBackend {
+  /** Answer a user message, running tools if given */
+  send(session: LlamaChatSession, message: string, options: ChatOptions): Promise<GenerateResult>
+
+  /** Answer a user message as a stream of events */
+  stream(
+    session: LlamaChatSession,
+    message: string,
+    options: ChatOptions
+  ): AsyncIterable<StreamEvent>
+}
+
+/**
+ * Convert a node-llama-cpp chat history item into one of our chat messages
+ *
+ * Reasoning segments are dropped; tool calls are kept on assistant messages.
+ */
+export function toChatMessage(item: ChatHistoryItem): ChatMessage {
+  switch (item.type) {
+    case "system":
+      return {
+        role: "system",
+        content:
+          typeof item.text === "string" ? item.text : LlamaText.fromJSON(item.text).toString()
+      }
+    case "user":
+      return { role: "user", content: item.text }
+    case "model": {
+      const content = item.response.filter((part) => typeof part === "string").join("")
+      const toolCalls: ToolCall[] = item.response
+        .filter(
+          (part): part is ChatModelFunctionCall =>
+            typeof part !== "string" && part.type === "functionCall"
+        )
+        .map((call) => ({
+          name: call.name,
+          arguments: call.params as unknown,
+          result: call.result as unknown
+        }))
+      return toolCalls.length > 0
+        ? { role: "assistant", content, toolCalls }
+        : { role: "assistant", content }
+    }
+  }
+}
+
+/**
+ * An independent multi-turn chat created by `engine.createConversation()`
+ *
+ * Conversations share the engine's loaded weights but keep their own history
+ * and context sequence, so they can generate in parallel. Calls on the same
+ * conversation run one after another. Call `dispose()` to free the sequence
+ * for other conversations.
+ *
+ * @example
+ * ```typescript
+ * const conversation = await engine.createConversation({ systemPrompt: "You are a pirate." })
+ * await conversation.send("Hi, who are you?")
+ * const result = await conversation.send("What did I just ask?")
+ * conversation.dispose()
+ * ```
+ */
+export class Conversation {
+  private session: LlamaChatSession | null
+  private readonly backend: ConversationBackend
+  private readonly systemPrompt?: string
+  private readonly onDispose?: () => void
+
+  /** Created by `engine.createConversation()` */
+  constructor(options: {
+    session: LlamaChatSession
+    backend: ConversationBackend
+    systemPrompt?: string
+    onDispose?: () => void
+  }) {
+    this.session = options.session
+    this.backend = options.backend
+    this.systemPrompt = options.systemPrompt
+    this.onDispose = options.onDispose
+    this.reset()
+  }
+
+  /**
+   * Send a user message and wait for the answer
+   *
+   * The message and the answer are appended to the history.
+   *
+   * @param message - User message
+   * @param options - Optional generation options (maxTokens, temperature, tools, etc.)
+   * @returns Generation result with the assistant's answer
+   * @throws Error if the conversation was disposed
+   */
+  async send(message: string, options: ChatOptions = {}): Promise<GenerateResult> {
+    return this.backend.send(this.getSession(), message, options)
+  }
+
+  /**
+   * Send a user message and stream the answer
+   *
+   * Works like `engine.stream()`: breaking out of the loop cancels generation
+   * and failures arrive as a final `error` event.
+   *
+   * @param message - User message
+   * @param options - Optional generation options (maxTokens, temperature, tools, etc.)
+   * @returns Async iterable of token, thought, usage, done and error events
+   * @throws Error if the conversation was disposed
+   */
+  stream(message: string, options: ChatOptions = {}): AsyncIterable<StreamEvent> {
+    return this.backend.stream(this.getSession(), message, options)
+  }
+
+  /**
+   * Messages exchanged so far, starting with the system prompt if one was given
+   */
+  get history(): ChatMessage[] {
+    return this.getSession().getChatHistory().map(toChatMessage)
+  }
+
+  /**
+   * Whether `dispose()` was called
+   */
+  get disposed(): boolean {
+    return this.session === null
+  }
+
+  /**
+   * Clear the history, keeping the system prompt
+   */
+  reset(): void {
+    this.getSession().setChatHistory(
+      this.systemPrompt ? [{ type: "system", text: this.systemPrompt }] : []
+    )
+  }
+
+  /**
+   * Release the conversation's context sequence
+   *
+   * Safe to call more than once. The model stays loaded.
+   */
+  dispose(): void {
+    if (!this.session) {
+      return
+    }
+    this.session.dispose({ disposeSequence: true })
+    this.session = null
+    this.onDispose?.()
+  }
+
+  private getSession(): LlamaChatSession {
+    if (!this.session) {
+      throw new Error("Conversation has been disposed")
+    }
+    return this.session
+  }
+}
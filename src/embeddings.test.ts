@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest"
+import { chunkTokens, normalizeVector, poolVectors } from "./embeddings"
+
+describe("chunkTokens", () => {
+  it("should split tokens into chunks of the given size", () => {
+    expect(chunkTokens([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+  })
+
+  it("should keep short inputs in one chunk", () => {
+    expect(chunkTokens([1, 2], 10)).toEqual([[1, 2]])
+  })
+
+  it("should return no chunks for empty input", () => {
+    expect(chunkTokens([], 10)).toEqual([])
+  })
+})
+
+describe("poolVectors", () => {
+  const vectors = [
+    [1, 4],
+    [3, 2]
+  ]
+
+  it("should average chunk vectors with mean pooling", () => {
+    expect(Array.from(poolVectors(vectors, "mean"))).toEqual([2, 3])
+  })
+
+  it("should take the maximum per dimension with max pooling", () => {
+    expect(Array.from(poolVectors(vectors, "max"))).toEqual([3, 4])
+  })
+
+  it("should keep the first vector with first pooling", () => {
+    expect(Array.from(poolVectors(vectors, "first"))).toEqual([1, 4])
+  })
+
+  it("should return a single vector unchanged", () => {
+    expect(Array.from(poolVectors([[0.5, -1]], "mean"))).toEqual([0.5, -1])
+  })
+})
+
+describe("normalizeVector", () => {
+  it("should scale vectors to unit length", () => {
+    expect(Array.from(normalizeVector(Float32Array.from([3, 4])))).toEqual([
+      expect.closeTo(0.6),
+      expect.closeTo(0.8)
+    ])
+  })
+
+  it("should leave zero vectors unchanged", () => {
+    expect(Array.from(normalizeVector(new Float32Array(3)))).toEqual([0, 0, 0])
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Embedding vector helpers
+ *
+ * Splits long inputs into chunks that fit the embedding context and combines
+ * the chunk vectors into a single `Float32Array`.
+ */
+
+import type { EmbeddingPooling } from "./types.js"
+
+/**
+ * Split tokens into chunks of at most `size` tokens
+ */
+export function chunkTokens<T>(tokens: readonly T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let start = 0; start < tokens.length; start += size) {
+    chunks.push(tokens.slice(start, start + size))
+  }
+  return chunks
+}
+
+/**
+ * Combine chunk vectors into one vector
+ *
+ * @param vectors - One vector per chunk, all of the same length
+ * @param pooling - How to combine them
+ */
+export function poolVectors(
+  vectors: readonly (readonly number[])[],
+  pooling: EmbeddingPooling
+): Float32Array {
+  const [first = []] = vectors
+  if (pooling === "first" || vectors.length === 1) {
+    return Float32Array.from(first)
+  }
+
+  const pooled = new Float32Array(first.length).fill(pooling === "max" ? -Infinity : 0)
+  for (const vector of vectors) {
+    for (let i = 0; i < pooled.length; i++) {
+      const value = vector[i]
+      pooled[i] = pooling === "max" ? Math.max(pooled[i], value) : pooled[i] + value
+    }
+  }
+
+  if (pooling === "mean") {
+    for (let i = 0; i < pooled.length; i++) {
+      pooled[i] /= vectors.length
+    }
+  }
+
+  return pooled
+}
+
+/**
+ * Scale a vector to unit length in place
+ *
+ * Zero vectors are returned unchanged.
+ */
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let sumOfSquares = 0
+  for (const value of vector) {
+    sumOfSquares += value * value
+  }
+
+  const length = Math.sqrt(sumOfSquares)
+  if (length > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= length
+    }
+  }
+
+  return vector
+}
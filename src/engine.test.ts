@@ -1,41 +1,273 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach, type Mock } from "vitest"
+import type { Conversation } from "./conversation"
 import { LLMEngine } from "./engine"
-import { MODELS } from "./types"
+import {
+  ContextOverflowError,
+  ConversationLimitError,
+  CorruptModelError,
+  EngineOverloadedError,
+  GenerationAbortedError,
+  ModelNotCachedError,
+  SchemaValidationError
+} from "./errors"
+import { modelRegistry } from "./registry"
+import { defineTool } from "./tools"
+import { MODELS, type StreamEvent } from "./types"
+
+const {
+  mockPromptWithMeta,
+  mockFileInsights,
+  mockVerifyModelFile,
+  mockInspectGguf,
+  mockReadModelInsights,
+  mockGetAvailableMemory
+} = vi.hoisted(() => {
+  // 10 layers of 1 GB; the KV cache takes 0.1 MB per token and layer on the same device
+  const insights = {
+    totalLayers: 10,
+    trainContextSize: 8192,
+    estimateModelResourceRequirements: ({ gpuLayers }: { gpuLayers: number }) => ({
+      cpuRam: (10 - gpuLayers) * 1e9,
+      gpuVram: gpuLayers * 1e9
+    }),
+    estimateContextResourceRequirements: (options: {
+      contextSize: number
+      modelGpuLayers: number
+      sequences: number
+    }) => ({
+      cpuRam: (10 - options.modelGpuLayers) * options.contextSize * options.sequences * 1e5,
+      gpuVram: options.modelGpuLayers * options.contextSize * options.sequences * 1e5
+    })
+  }
+  return {
+    mockPromptWithMeta: vi.fn(),
+    mockFileInsights: { supportsRanking: false, ...insights },
+    mockVerifyModelFile: vi.fn(),
+    mockInspectGguf: vi.fn((path: string) =>
+      Promise.resolve({
+        path,
+        sizeBytes: 1024,
+        version: 3,
+        name: "Custom Llama",
+        architecture: "llama",
+        contextLength: 131072,
+        quantization: "Q5_K_M",
+        parameterCount: 8e9,
+        parameters: "8B",
+        tokenizer: { model: "gpt2", vocabularySize: 128256 }
+      })
+    ),
+    mockReadModelInsights: vi.fn((_llama: unknown, _pathOrUri: string) =>
+      Promise.resolve(insights)
+    ),
+    mockGetAvailableMemory: vi.fn(() =>
+      Promise.resolve({ ramBytes: 64e9, vramBytes: 8e9, unifiedBytes: 0 })
+    )
+  }
+})
+
+// Model files do not exist in tests; integrity.test.ts and gguf.test.ts check real files
+vi.mock("./integrity", () => ({ verifyModelFile: mockVerifyModelFile }))
+vi.mock("./memory", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./memory")>()),
+  readModelInsights: mockReadModelInsights,
+  getAvailableMemory: mockGetAvailableMemory
+}))
+vi.mock("./gguf", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./gguf")>()),
+  inspectGguf: mockInspectGguf
+}))
 
 // Mock node-llama-cpp
 vi.mock("node-llama-cpp", () => {
-  const mockSequence = {}
-
   const mockContext = {
-    getSequence: vi.fn().mockReturnValue(mockSequence),
+    contextSize: 512,
+    sequencesLeft: 1,
+    getSequence: vi.fn(() => {
+      mockContext.sequencesLeft--
+      return {}
+    }),
+    dispose: vi.fn().mockResolvedValue(undefined)
+  }
+
+  const mockEmbeddingContext = {
+    model: {
+      embeddingVectorSize: 2,
+      // One token per character
+      tokenize: (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+    },
+    getEmbeddingFor: vi.fn((tokens: number[]) =>
+      Promise.resolve({ vector: [tokens.length, tokens.length === 4 ? 4 : 0] })
+    ),
+    dispose: vi.fn().mockResolvedValue(undefined)
+  }
+
+  const mockRankingContext = {
+    model: mockEmbeddingContext.model,
+    // Share of "z" tokens in the document
+    rankAll: vi.fn((_query: string, documents: number[][]) =>
+      Promise.resolve(
+        documents.map(
+          (tokens) => tokens.filter((token) => token === "z".charCodeAt(0)).length / tokens.length
+        )
+      )
+    ),
     dispose: vi.fn().mockResolvedValue(undefined)
   }
 
   const mockModel = {
-    createContext: vi.fn().mockResolvedValue(mockContext),
+    trainContextSize: 8,
+    gpuLayers: 3,
+    tokenizer: vi.fn(),
+    tokenize: mockEmbeddingContext.model.tokenize,
+    detokenize: (tokens: number[]) => String.fromCharCode(...tokens),
+    fileInsights: mockFileInsights,
+    createEmbeddingContext: vi.fn().mockResolvedValue(mockEmbeddingContext),
+    createRankingContext: vi.fn().mockResolvedValue(mockRankingContext),
+    createContext: vi.fn((options: { sequences: number }) => {
+      mockContext.sequencesLeft = options.sequences
+      return Promise.resolve(mockContext)
+    }),
     dispose: vi.fn().mockResolvedValue(undefined)
   }
 
   const mockLlama = {
-    loadModel: vi.fn().mockResolvedValue(mockModel)
+    loadModel: vi.fn().mockResolvedValue(mockModel),
+    createGrammarForJsonSchema: vi.fn().mockResolvedValue({
+      parse: (text: string): unknown => JSON.parse(text)
+    })
+  }
+
+  class MockSequence {
+    contextTokens: number[] = []
+    tokenMeter = {
+      getState: vi.fn().mockReturnValue({ usedInputTokens: 0, usedOutputTokens: 0 }),
+      diff: vi.fn().mockReturnValue({ usedInputTokens: 12, usedOutputTokens: 3 })
+    }
+    evaluate() {
+      return undefined
+    }
+    // Samples "Hi", each token at 75%
+    async *evaluateWithMetadata() {
+      for (const token of [72, 105]) {
+        await Promise.resolve()
+        yield {
+          token,
+          confidence: 0.75,
+          probabilities: new Map([
+            [token, 0.75],
+            [33, 0.25]
+          ])
+        }
+      }
+    }
+    saveStateToFile = vi.fn().mockResolvedValue({ fileSize: 1024 })
+    loadStateFromFile = vi.fn((filePath: string) =>
+      filePath.includes("missing")
+        ? Promise.reject(new Error(`ENOENT: ${filePath}`))
+        : Promise.resolve()
+    )
   }
 
   // Must be a real class for `new` to work
   class MockLlamaChatSession {
-    prompt = vi.fn().mockResolvedValue("Mock response")
+    promptWithMeta = mockPromptWithMeta
+    preloadPrompt = vi.fn().mockResolvedValue(undefined)
     setChatHistory = vi.fn()
+    getChatHistory = vi.fn().mockReturnValue([])
+    chatWrapper = {
+      generateContextState: vi.fn().mockReturnValue({
+        contextText: { tokenize: () => new Array<number>(12).fill(0) }
+      })
+    }
+    // One token per character
+    model = {
+      tokenizer: (text: string) => Array.from(text, (char) => char.charCodeAt(0)),
+      detokenize: (tokens: number[]) => String.fromCharCode(...tokens)
+    }
+    context = mockContext
+    sequence = new MockSequence()
+    dispose = vi.fn(() => {
+      mockContext.sequencesLeft++
+    })
+  }
+
+  // Every message costs its text plus two template tokens
+  const mockChatWrapper = {
+    generateContextState: ({
+      chatHistory
+    }: {
+      chatHistory: ({ text: string } | { response: string[] })[]
+    }) => {
+      const length = chatHistory
+        .map((item) => ("text" in item ? item.text : item.response.join("")).length + 2)
+        .reduce((sum, count) => sum + count, 0)
+      return { contextText: { tokenize: () => new Array<number>(length).fill(0) } }
+    }
+  }
+
+  class MockTokenBias {
+    entries = new Map<number | string, unknown>()
+    set(input: number | string, bias: unknown) {
+      this.entries.set(input, bias)
+      return this
+    }
   }
 
   return {
     getLlama: vi.fn().mockResolvedValue(mockLlama),
+    TokenBias: MockTokenBias,
+    resolveChatWrapper: vi.fn().mockReturnValue(mockChatWrapper),
     resolveModelFile: vi.fn().mockResolvedValue("/mock/path/to/model.gguf"),
     LlamaChatSession: MockLlamaChatSession
   }
 })
 
+/**
+ * Make the mock session pull its answer from `sequence.evaluate()`, one text chunk per token
+ */
+function mockEvaluatedAnswer() {
+  mockPromptWithMeta.mockImplementationOnce(async function (
+    this: {
+      sequence: { evaluate: (tokens: number[]) => AsyncIterable<number> }
+      model: { detokenize: (tokens: number[]) => string }
+    },
+    _prompt: string,
+    options: { onToken: (tokens: number[]) => void; onTextChunk: (text: string) => void }
+  ) {
+    let text = ""
+    for await (const token of this.sequence.evaluate([1])) {
+      options.onToken([token])
+      options.onTextChunk(this.model.detokenize([token]))
+      text += this.model.detokenize([token])
+    }
+    return { response: [text], responseText: text, stopReason: "eogToken" }
+  })
+}
+
 describe("LLMEngine", () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockVerifyModelFile.mockImplementation((path: string) =>
+      Promise.resolve({ path, sizeBytes: 1024 })
+    )
+    mockPromptWithMeta.mockImplementation(
+      (
+        _prompt: string,
+        options?: {
+          onResponseChunk?: (chunk: { text: string }) => void
+          onTextChunk?: (text: string) => void
+        }
+      ) => {
+        options?.onResponseChunk?.({ text: "Mock response" })
+        options?.onTextChunk?.("Mock response")
+        return Promise.resolve({
+          response: ["Mock response"],
+          responseText: "Mock response",
+          stopReason: "eogToken"
+        })
+      }
+    )
     // Suppress console.log during tests
     vi.spyOn(console, "log").mockImplementation(() => undefined)
   })
@@ -108,6 +340,38 @@ describe("LLMEngine", () => {
       expect(info.name).toBe("Qwen3 8B")
     })
 
+    it("should reflect the chosen quantization variant", () => {
+      const engine = new LLMEngine({ model: "qwen3-8b", quantization: "q8_0" })
+      const info = engine.getModelInfo()
+      expect(info).toMatchObject({
+        name: "Qwen3 8B",
+        file: "Qwen3-8B-Q8_0.gguf",
+        quantization: "Q8_0",
+        size: "8.7 GB"
+      })
+    })
+
+    it("should download the chosen variant", async () => {
+      const { resolveModelFile } = await import("node-llama-cpp")
+      const engine = new LLMEngine({ model: "qwen", quantization: "Q6_K" })
+      await engine.initialize()
+
+      expect(resolveModelFile).toHaveBeenCalledWith(
+        "hf:unsloth/Qwen3-8B-GGUF/Qwen3-8B-Q6_K.gguf",
+        expect.anything()
+      )
+    })
+
+    it("should reject unknown quantizations", () => {
+      expect(() => new LLMEngine({ model: "qwen3-8b", quantization: "Q2_K" })).toThrow(
+        'Model "qwen3-8b" has no Q2_K variant; available: Q4_K_M, Q8_0, Q6_K, Q5_K_M, Q3_K_M'
+      )
+      expect(() => new LLMEngine({ model: "bge-m3", quantization: "Q8_0" })).not.toThrow()
+      expect(() => new LLMEngine({ model: "/models/x.gguf", quantization: "Q8_0" })).toThrow(
+        "only applies to registered models"
+      )
+    })
+
     it("should return custom model info for unknown models", () => {
       const engine = new LLMEngine({ model: "/custom/model.gguf" })
       const info = engine.getModelInfo()
@@ -115,6 +379,26 @@ describe("LLMEngine", () => {
       expect(info.repo).toBe("custom")
       expect(info.description).toBe("Custom model")
     })
+
+    it("should read custom model info from the GGUF header once initialized", async () => {
+      const engine = new LLMEngine({ model: "/custom/model.gguf" })
+      await engine.initialize()
+
+      expect(mockInspectGguf).toHaveBeenCalledWith("/mock/path/to/model.gguf")
+      expect(engine.getModelInfo()).toMatchObject({
+        name: "Custom Llama",
+        parameters: "8B",
+        quantization: "Q5_K_M",
+        contextLength: 131072,
+        gguf: { architecture: "llama", tokenizer: { vocabularySize: 128256 } }
+      })
+      expect(engine.getModelInfo().languages).toBeUndefined()
+    })
+
+    it("should not read the header of registered models", async () => {
+      await new LLMEngine({ model: "phi-4" }).initialize()
+      expect(mockInspectGguf).not.toHaveBeenCalled()
+    })
   })
 
   describe("isAvailable", () => {
@@ -146,6 +430,119 @@ describe("LLMEngine", () => {
       const engine = new LLMEngine({ model: "gemma", contextSize: 4096 })
       await engine.initialize()
     })
+
+    it("should resolve the model file from cacheDir", async () => {
+      const { resolveModelFile } = await import("node-llama-cpp")
+      const engine = new LLMEngine({ model: "phi-4", cacheDir: "/models" })
+      await engine.initialize()
+
+      expect(resolveModelFile).toHaveBeenCalledWith(
+        "hf:bartowski/phi-4-GGUF/phi-4-Q4_K_M.gguf",
+        expect.objectContaining({ directory: "/models", download: "auto" })
+      )
+    })
+
+    it("should fail with ModelNotCachedError when offline and not cached", async () => {
+      const { resolveModelFile } = await import("node-llama-cpp")
+      vi.mocked(resolveModelFile).mockRejectedValueOnce(new Error("download is disabled"))
+      const engine = new LLMEngine({ model: "phi-4", cacheDir: "/models", offline: true })
+
+      await expect(engine.initialize()).rejects.toBeInstanceOf(ModelNotCachedError)
+      expect(vi.mocked(resolveModelFile).mock.calls[0]?.[1]).toMatchObject({ download: false })
+    })
+
+    it("should verify the model file before loading it", async () => {
+      const { getLlama } = await import("node-llama-cpp")
+      const llama = vi.mocked(await getLlama())
+      mockVerifyModelFile.mockRejectedValueOnce(
+        new CorruptModelError("/mock/path/to/model.gguf", "missing GGUF magic")
+      )
+      const engine = new LLMEngine({ model: "phi-4" })
+
+      await expect(engine.initialize()).rejects.toBeInstanceOf(CorruptModelError)
+      expect(mockVerifyModelFile).toHaveBeenCalledWith(
+        "/mock/path/to/model.gguf",
+        expect.objectContaining({ file: "phi-4-Q4_K_M.gguf" }),
+        { checkHash: false, quarantine: true }
+      )
+      expect(llama.loadModel.mock.calls).toHaveLength(0)
+    })
+  })
+
+  describe("memory fitting", () => {
+    it("should let node-llama-cpp pick gpuLayers and contextSize", async () => {
+      const { getLlama } = await import("node-llama-cpp")
+      const llama = vi.mocked(await getLlama())
+      const engine = new LLMEngine({ model: "phi-4", gpuLayers: "auto", contextSize: "auto" })
+      await engine.initialize()
+
+      expect(llama.loadModel.mock.calls[0]?.[0]).toMatchObject({ gpuLayers: "auto" })
+      const model = (engine as unknown as { model: { createContext: Mock } }).model
+      expect(model.createContext).toHaveBeenCalledWith({ contextSize: "auto", sequences: 1 })
+      // What the mock model and context report: 3 GPU layers and 512 tokens
+      expect(engine.getMemoryEstimate()).toMatchObject({
+        gpuLayers: 3,
+        contextSize: 512,
+        totalLayers: 10,
+        model: { ramBytes: 7e9, vramBytes: 3e9 },
+        fits: true
+      })
+      expect(mockReadModelInsights).not.toHaveBeenCalled()
+    })
+
+    it("should fit gpuLayers to a fixed context size", async () => {
+      const { getLlama } = await import("node-llama-cpp")
+      const llama = vi.mocked(await getLlama())
+      const engine = new LLMEngine({ model: "phi-4", gpuLayers: "auto", contextSize: 1024 })
+      await engine.initialize()
+
+      expect(llama.loadModel.mock.calls[0]?.[0]).toMatchObject({
+        gpuLayers: { fitContext: { contextSize: 1024 } }
+      })
+      const model = (engine as unknown as { model: { createContext: Mock } }).model
+      expect(model.createContext).toHaveBeenCalledWith({ contextSize: 1024, sequences: 1 })
+    })
+
+    it("should not estimate without auto options", async () => {
+      const engine = new LLMEngine({ model: "phi-4", contextSize: 2048 })
+      await engine.initialize()
+
+      expect(mockGetAvailableMemory).not.toHaveBeenCalled()
+      expect(engine.getMemoryEstimate()).toBeNull()
+    })
+  })
+
+  describe("verifyModel", () => {
+    it("should hash the cached file without downloading", async () => {
+      const { resolveModelFile } = await import("node-llama-cpp")
+      mockVerifyModelFile.mockImplementation((path: string) =>
+        Promise.resolve({ path, sizeBytes: 1024, sha256: "ab".repeat(32) })
+      )
+      const engine = new LLMEngine({ model: "phi-4" })
+
+      expect(await engine.verifyModel()).toEqual({
+        path: "/mock/path/to/model.gguf",
+        sizeBytes: 1024,
+        sha256: "ab".repeat(32)
+      })
+      expect(vi.mocked(resolveModelFile).mock.calls[0]?.[1]).toMatchObject({ download: false })
+      expect(mockVerifyModelFile).toHaveBeenLastCalledWith(
+        "/mock/path/to/model.gguf",
+        expect.objectContaining({ file: "phi-4-Q4_K_M.gguf" }),
+        { checkHash: true, quarantine: true }
+      )
+    })
+
+    it("should leave local files in place", async () => {
+      const engine = new LLMEngine({ model: "/custom/model.gguf" })
+      await engine.verifyModel()
+
+      expect(mockVerifyModelFile).toHaveBeenLastCalledWith(
+        "/mock/path/to/model.gguf",
+        {},
+        { checkHash: true, quarantine: false }
+      )
+    })
   })
 
   describe("generate", () => {
@@ -180,192 +577,2007 @@ describe("LLMEngine", () => {
 
       expect(result.text).toBe("Mock response")
     })
-  })
 
-  describe("generateStreaming", () => {
-    it("should stream tokens", async () => {
+    it("should pass extended sampling options to the session", async () => {
       const engine = new LLMEngine({ model: "gemma" })
-      const tokens: string[] = []
-
-      const result = await engine.generateStreaming({ prompt: "Hello" }, (token) => {
-        tokens.push(token)
+      await engine.generate({
+        prompt: "Hello",
+        seed: 42,
+        minP: 0.05,
+        presencePenalty: 0.3,
+        frequencyPenalty: 0.2,
+        lastTokens: 128
       })
 
-      expect(result.text).toBe("Mock response")
-      expect(result.finishReason).toBe("stop")
+      expect(mockPromptWithMeta.mock.calls[0]?.[1]).toMatchObject({
+        seed: 42,
+        minP: 0.05,
+        repeatPenalty: {
+          penalty: 1.1,
+          presencePenalty: 0.3,
+          frequencyPenalty: 0.2,
+          lastTokens: 128
+        },
+        tokenBias: undefined
+      })
     })
 
-    it("should auto-initialize if not initialized", async () => {
-      const engine = new LLMEngine({ model: "gemma" })
-      const result = await engine.generateStreaming({ prompt: "Hello" }, vi.fn())
-      expect(result.text).toBe("Mock response")
+    it("should forward each request's seed to node-llama-cpp", async () => {
+      // Determinism itself is llama.cpp's job; scripts/test-e2e.ts checks it on a real model
+      const engine = new LLMEngine({ model: "gemma", mode: "stateless" })
+
+      await engine.generate({ prompt: "Colors?", seed: 42 })
+      await engine.generate({ prompt: "Colors?", seed: 42 })
+      await engine.chat([{ role: "user", content: "Colors?" }], { seed: 7 })
+      await engine.generate({ prompt: "Colors?" })
+
+      const seeds = mockPromptWithMeta.mock.calls.map(
+        (call) => (call[1] as { seed?: number } | undefined)?.seed
+      )
+      expect(seeds).toEqual([42, 42, 7, undefined])
     })
 
-    it("should handle systemPrompt in streaming", async () => {
+    it("should return log probabilities when requested", async () => {
+      mockEvaluatedAnswer()
       const engine = new LLMEngine({ model: "gemma" })
-      const result = await engine.generateStreaming(
+      const result = await engine.generate({ prompt: "Hello", logprobs: 1 })
+
+      expect(result.text).toBe("Hi")
+      expect(result.logprobs).toEqual([
         {
-          prompt: "Hello",
-          systemPrompt: "Be concise"
+          token: "H",
+          id: 72,
+          logprob: Math.log(0.75),
+          topLogprobs: [{ token: "H", id: 72, logprob: Math.log(0.75) }]
         },
-        vi.fn()
-      )
+        {
+          token: "i",
+          id: 105,
+          logprob: Math.log(0.75),
+          topLogprobs: [{ token: "i", id: 105, logprob: Math.log(0.75) }]
+        }
+      ])
+    })
 
-      expect(result.text).toBe("Mock response")
+    it("should not return log probabilities by default", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.generate({ prompt: "Hello" })
+      expect(result.logprobs).toBeUndefined()
     })
-  })
 
-  describe("chat", () => {
-    it("should handle chat messages", async () => {
+    it("should build a token bias from logitBias and bannedStrings", async () => {
       const engine = new LLMEngine({ model: "gemma" })
-      const result = await engine.chat([
-        { role: "system", content: "You are helpful" },
-        { role: "user", content: "Hello" }
-      ])
+      await engine.chat([{ role: "user", content: "Hello" }], {
+        logitBias: [{ token: 42, bias: -1.5 }],
+        bannedStrings: ["x"]
+      })
 
-      expect(result.text).toBe("Mock response")
+      const { tokenBias } = mockPromptWithMeta.mock.calls[0]?.[1] as {
+        tokenBias: () => { entries: Map<number | string, unknown> }
+      }
+      expect(tokenBias().entries).toEqual(
+        new Map<number | string, unknown>([
+          [42, { logit: -1.5 }],
+          ["x".charCodeAt(0), "never"]
+        ])
+      )
     })
 
-    it("should handle assistant messages in history", async () => {
+    it("should report real token counts", async () => {
       const engine = new LLMEngine({ model: "gemma" })
-      const result = await engine.chat([
-        { role: "system", content: "You are helpful" },
-        { role: "user", content: "Hi" },
-        { role: "assistant", content: "Hello!" },
-        { role: "user", content: "How are you?" }
-      ])
+      const result = await engine.generate({ prompt: "Hello", systemPrompt: "Be brief" })
 
-      expect(result.text).toBe("Mock response")
+      expect(result.promptTokenCount).toBe(12)
+      expect(result.tokenCount).toBe(3)
     })
 
-    it("should throw if last message is not from user", async () => {
+    it("should split timing into prompt evaluation and decoding", async () => {
       const engine = new LLMEngine({ model: "gemma" })
-      await expect(
-        engine.chat([
-          { role: "user", content: "Hello" },
-          { role: "assistant", content: "Hi!" }
-        ])
-      ).rejects.toThrow("Last message must be from user")
+      const result = await engine.generate({ prompt: "Hello" })
+
+      expect(result.promptEvalSeconds).toBeGreaterThanOrEqual(0)
+      expect(result.timeToFirstTokenSeconds).toBeGreaterThanOrEqual(result.promptEvalSeconds)
+      expect(result.durationSeconds).toBeGreaterThanOrEqual(result.timeToFirstTokenSeconds)
+      expect(Number.isFinite(result.tokensPerSecond)).toBe(true)
+      expect(Number.isFinite(result.promptTokensPerSecond)).toBe(true)
     })
 
-    it("should accept generation options", async () => {
+    it("should pass stop sequences to the session", async () => {
       const engine = new LLMEngine({ model: "gemma" })
-      const result = await engine.chat([{ role: "user", content: "Hello" }], {
-        maxTokens: 50,
-        temperature: 0.3
-      })
+      await engine.generate({ prompt: "Hello", stop: ["\n\n", "", "END"] })
 
-      expect(result.text).toBe("Mock response")
+      const options = mockPromptWithMeta.mock.calls[0]?.[1] as { customStopTriggers?: string[] }
+      expect(options.customStopTriggers).toEqual(["\n\n", "END"])
     })
 
-    it("should auto-initialize if not initialized", async () => {
+    it("should not pass stop triggers when no stop sequences are given", async () => {
       const engine = new LLMEngine({ model: "gemma" })
-      const result = await engine.chat([{ role: "user", content: "Hello" }])
-      expect(result.text).toBe("Mock response")
+      await engine.generate({ prompt: "Hello", stop: [] })
+
+      const options = mockPromptWithMeta.mock.calls[0]?.[1] as { customStopTriggers?: string[] }
+      expect(options.customStopTriggers).toBeUndefined()
     })
-  })
 
-  describe("resetSession", () => {
-    it("should reset session after initialization", async () => {
+    it("should report the matched stop sequence", async () => {
+      mockPromptWithMeta.mockResolvedValueOnce({
+        response: ["Mock"],
+        responseText: "Mock",
+        stopReason: "customStopTrigger",
+        customStopTrigger: ["END"]
+      })
+
       const engine = new LLMEngine({ model: "gemma" })
-      await engine.initialize()
-      engine.resetSession() // Should not throw
+      const result = await engine.generate({ prompt: "Hello", stop: ["END"] })
+
+      expect(result.text).toBe("Mock")
+      expect(result.finishReason).toBe("stop")
+      expect(result.stopSequence).toBe("END")
     })
 
-    it("should be safe to call before initialization", () => {
+    it("should report length when maxTokens is reached", async () => {
+      mockPromptWithMeta.mockResolvedValueOnce({
+        response: ["Mock"],
+        responseText: "Mock",
+        stopReason: "maxTokens"
+      })
+
       const engine = new LLMEngine({ model: "gemma" })
-      engine.resetSession() // Should not throw
+      const result = await engine.generate({ prompt: "Hello", maxTokens: 1 })
+
+      expect(result.finishReason).toBe("length")
+      expect(result.stopSequence).toBeUndefined()
     })
-  })
 
-  describe("dispose", () => {
-    it("should clean up resources", async () => {
+    it("should report abort when generation was aborted", async () => {
+      mockPromptWithMeta.mockResolvedValueOnce({
+        response: [],
+        responseText: "",
+        stopReason: "abort"
+      })
+
       const engine = new LLMEngine({ model: "gemma" })
-      await engine.initialize()
-      await engine.dispose()
+      const result = await engine.generate({ prompt: "Hello" })
+
+      expect(result.finishReason).toBe("abort")
     })
+  })
 
-    it("should be safe to call before initialization", async () => {
+  describe("scheduling", () => {
+    function holdResponses() {
+      const releases: (() => void)[] = []
+      mockPromptWithMeta.mockImplementation(
+        (prompt: string) =>
+          new Promise((resolve) => {
+            releases.push(() =>
+              resolve({ response: [prompt], responseText: prompt, stopReason: "eogToken" })
+            )
+          })
+      )
+      return {
+        releaseNext: async () => {
+          await vi.waitFor(() => expect(releases.length).toBeGreaterThan(0))
+          releases.shift()?.()
+        }
+      }
+    }
+
+    it("should report zero queue wait for requests that did not wait", async () => {
       const engine = new LLMEngine({ model: "gemma" })
-      await engine.dispose() // Should not throw
+      const result = await engine.generate({ prompt: "Hello" })
+      expect(result.queueWaitSeconds).toBe(0)
     })
 
-    it("should be safe to call multiple times", async () => {
+    it("should run concurrent requests one at a time by default", async () => {
+      const { releaseNext } = holdResponses()
       const engine = new LLMEngine({ model: "gemma" })
-      await engine.initialize()
-      await engine.dispose()
-      await engine.dispose() // Should not throw
-    })
-  })
-})
 
-describe("Model resolution", () => {
-  it("should have gemma alias point to gemma-3n-e4b", () => {
-    const engine = new LLMEngine({ model: "gemma" })
-    const info = engine.getModelInfo()
-    expect(info).toEqual(MODELS["gemma-3n-e4b"])
-  })
+      const first = engine.generate({ prompt: "first" })
+      const second = engine.generate({ prompt: "second" })
 
-  it("should have qwen alias point to qwen3-8b", () => {
-    const engine = new LLMEngine({ model: "qwen" })
-    const info = engine.getModelInfo()
-    expect(info).toEqual(MODELS["qwen3-8b"])
-  })
+      await vi.waitFor(() => expect(mockPromptWithMeta).toHaveBeenCalledTimes(1))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(mockPromptWithMeta).toHaveBeenCalledTimes(1)
 
-  it("should have deepseek alias point to deepseek-r1-7b", () => {
-    const engine = new LLMEngine({ model: "deepseek" })
-    const info = engine.getModelInfo()
-    expect(info).toEqual(MODELS["deepseek-r1-7b"])
-  })
+      await releaseNext()
+      expect((await first).text).toBe("first")
+      await releaseNext()
+      const result = await second
+      expect(result.text).toBe("second")
+      expect(result.queueWaitSeconds).toBeGreaterThan(0)
+    })
 
-  it("should have phi alias point to phi-4", () => {
-    const engine = new LLMEngine({ model: "phi" })
-    const info = engine.getModelInfo()
-    expect(info).toEqual(MODELS["phi-4"])
-  })
+    it("should run up to maxConcurrency requests on separate sessions", async () => {
+      const { releaseNext } = holdResponses()
+      const engine = new LLMEngine({ model: "gemma", maxConcurrency: 2 })
 
-  it("should have qwen-coder alias point to qwen-2.5-coder-7b", () => {
-    const engine = new LLMEngine({ model: "qwen-coder" })
-    const info = engine.getModelInfo()
-    expect(info).toEqual(MODELS["qwen-2.5-coder-7b"])
-  })
+      const results = Promise.all([
+        engine.generate({ prompt: "a" }),
+        engine.generate({ prompt: "b" })
+      ])
 
-  it("should have gemma-fast alias point to gemma-3n-e2b", () => {
-    const engine = new LLMEngine({ model: "gemma-fast" })
-    const info = engine.getModelInfo()
-    expect(info).toEqual(MODELS["gemma-3n-e2b"])
-  })
-})
+      await vi.waitFor(() => expect(mockPromptWithMeta).toHaveBeenCalledTimes(2))
+      const sessions = mockPromptWithMeta.mock.contexts
+      expect(sessions[0]).not.toBe(sessions[1])
 
-describe("Static methods", () => {
-  describe("listModels", () => {
-    it("should return all models", () => {
-      const models = LLMEngine.listModels()
-      expect(models.length).toBeGreaterThan(0)
-      expect(models[0]).toHaveProperty("id")
-      expect(models[0]).toHaveProperty("name")
-      expect(models[0]).toHaveProperty("repo")
+      await releaseNext()
+      await releaseNext()
+      expect((await results).map((r) => r.text)).toEqual(["a", "b"])
     })
 
-    it("should include gemma-3n-e4b", () => {
-      const models = LLMEngine.listModels()
-      const gemma = models.find((m) => m.id === "gemma-3n-e4b")
-      expect(gemma).toBeDefined()
-      expect(gemma?.name).toBe("Gemma 3n E4B")
-    })
-  })
+    it("should start higher priority requests first", async () => {
+      const { releaseNext } = holdResponses()
+      const engine = new LLMEngine({ model: "gemma" })
 
-  describe("getModelForUseCase", () => {
-    it("should return gemma-3n-e2b for fast", () => {
-      expect(LLMEngine.getModelForUseCase("fast")).toBe("gemma-3n-e2b")
-    })
+      const running = engine.generate({ prompt: "running" })
+      await vi.waitFor(() => expect(mockPromptWithMeta).toHaveBeenCalledTimes(1))
+      const low = engine.generate({ prompt: "low" })
+      const high = engine.chat([{ role: "user", content: "high" }], { priority: 1 })
 
-    it("should return gemma-3n-e4b for balanced", () => {
-      expect(LLMEngine.getModelForUseCase("balanced")).toBe("gemma-3n-e4b")
-    })
+      for (let i = 0; i < 3; i++) {
+        await releaseNext()
+      }
+      await Promise.all([running, low, high])
 
-    it("should return qwen-2.5-coder-7b for code", () => {
-      expect(LLMEngine.getModelForUseCase("code")).toBe("qwen-2.5-coder-7b")
+      expect(mockPromptWithMeta.mock.calls.map(([prompt]) => prompt as string)).toEqual([
+        "running",
+        "high",
+        "low"
+      ])
+    })
+
+    it("should reject with EngineOverloadedError when the queue is full", async () => {
+      const { releaseNext } = holdResponses()
+      const engine = new LLMEngine({ model: "gemma", maxQueueLength: 1 })
+
+      const running = engine.generate({ prompt: "running" })
+      await vi.waitFor(() => expect(mockPromptWithMeta).toHaveBeenCalledTimes(1))
+      const queued = engine.generate({ prompt: "queued" })
+
+      await expect(engine.generate({ prompt: "rejected" })).rejects.toBeInstanceOf(
+        EngineOverloadedError
+      )
+
+      await releaseNext()
+      await releaseNext()
+      await Promise.all([running, queued])
+    })
+
+    it("should resolve requests aborted while queued with an empty result", async () => {
+      const { releaseNext } = holdResponses()
+      const engine = new LLMEngine({ model: "gemma" })
+      const controller = new AbortController()
+
+      const running = engine.generate({ prompt: "running" })
+      await vi.waitFor(() => expect(mockPromptWithMeta).toHaveBeenCalledTimes(1))
+      const queued = engine.generate({ prompt: "queued", signal: controller.signal })
+      const strict = engine.generate({
+        prompt: "strict",
+        signal: controller.signal,
+        throwOnAbort: true
+      })
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      controller.abort()
+
+      const result = await queued
+      expect(result).toMatchObject({ text: "", tokenCount: 0, finishReason: "abort" })
+      expect(result.queueWaitSeconds).toBeGreaterThan(0)
+      await expect(strict).rejects.toBeInstanceOf(GenerationAbortedError)
+
+      await releaseNext()
+      await running
+      expect(mockPromptWithMeta).toHaveBeenCalledTimes(1)
+    })
+
+    it("should load the model once for concurrent first requests", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxConcurrency: 2 })
+      await Promise.all([engine.generate({ prompt: "a" }), engine.generate({ prompt: "b" })])
+
+      const llama = (engine as unknown as { llama: { loadModel: Mock } }).llama
+      expect(llama.loadModel).toHaveBeenCalledTimes(1)
+    })
+
+    it("should reject maxConcurrency above maxSequences", () => {
+      expect(() => new LLMEngine({ model: "gemma", maxConcurrency: 4, maxSequences: 2 })).toThrow(
+        "cannot exceed maxSequences"
+      )
+    })
+  })
+
+  describe("cancellation", () => {
+    // Simulates node-llama-cpp: emits one chunk, then waits for the signal
+    const promptUntilAborted = (
+      _prompt: string,
+      options: { signal: AbortSignal; onTextChunk: (text: string) => void }
+    ) => {
+      options.onTextChunk("Partial")
+      return new Promise((resolve) => {
+        options.signal.addEventListener("abort", () => {
+          resolve({ response: ["Partial"], responseText: "Partial", stopReason: "abort" })
+        })
+      })
+    }
+
+    it("should return partial text when the signal aborts", async () => {
+      mockPromptWithMeta.mockImplementationOnce(promptUntilAborted)
+      const controller = new AbortController()
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const pending = engine.generate({ prompt: "Hello", signal: controller.signal })
+      await vi.waitFor(() => expect(mockPromptWithMeta).toHaveBeenCalled())
+      controller.abort()
+      const result = await pending
+
+      expect(result.text).toBe("Partial")
+      expect(result.finishReason).toBe("abort")
+    })
+
+    it("should abort after timeoutMs", async () => {
+      mockPromptWithMeta.mockImplementationOnce(promptUntilAborted)
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const result = await engine.generate({ prompt: "Hello", timeoutMs: 10 })
+
+      expect(result.text).toBe("Partial")
+      expect(result.finishReason).toBe("abort")
+    })
+
+    it("should throw GenerationAbortedError when throwOnAbort is set", async () => {
+      mockPromptWithMeta.mockImplementationOnce(promptUntilAborted)
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const error: unknown = await engine
+        .generateStreaming({ prompt: "Hello", timeoutMs: 10, throwOnAbort: true }, vi.fn())
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(GenerationAbortedError)
+      expect((error as GenerationAbortedError).reason).toBe("timeout")
+      expect((error as GenerationAbortedError).partialText).toBe("Partial")
+    })
+
+    it("should handle a signal that is aborted before generation starts", async () => {
+      mockPromptWithMeta.mockRejectedValueOnce(new Error("AbortError"))
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const result = await engine.generate({ prompt: "Hello", signal: AbortSignal.abort() })
+
+      expect(result.text).toBe("")
+      expect(result.finishReason).toBe("abort")
+    })
+
+    it("should rethrow errors that are not caused by an abort", async () => {
+      mockPromptWithMeta.mockRejectedValueOnce(new Error("Native failure"))
+      const engine = new LLMEngine({ model: "gemma" })
+
+      await expect(engine.generate({ prompt: "Hello" })).rejects.toThrow("Native failure")
+    })
+
+    it("should keep working after a cancelled generation", async () => {
+      mockPromptWithMeta.mockImplementationOnce(promptUntilAborted)
+      const engine = new LLMEngine({ model: "gemma" })
+
+      await engine.generate({ prompt: "Hello", timeoutMs: 10 })
+      const result = await engine.generate({ prompt: "Hello again" })
+
+      expect(result.text).toBe("Mock response")
+      expect(result.finishReason).toBe("stop")
+    })
+
+    it("should accept a signal in chat", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const controller = new AbortController()
+      await engine.chat([{ role: "user", content: "Hello" }], { signal: controller.signal })
+
+      const options = mockPromptWithMeta.mock.calls[0]?.[1] as { signal: AbortSignal }
+      expect(options.signal).toBeInstanceOf(AbortSignal)
+    })
+  })
+
+  describe("generateStreaming", () => {
+    it("should stream tokens", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const tokens: string[] = []
+
+      const result = await engine.generateStreaming({ prompt: "Hello" }, (token) => {
+        tokens.push(token)
+      })
+
+      expect(result.text).toBe("Mock response")
+      expect(result.finishReason).toBe("stop")
+      expect(tokens).toEqual(["Mock response"])
+    })
+
+    it("should honor stop sequences while streaming", async () => {
+      mockPromptWithMeta.mockImplementationOnce(
+        (_prompt: string, options: { onTextChunk: (text: string) => void }) => {
+          options.onTextChunk("Mock")
+          return Promise.resolve({
+            response: ["Mock"],
+            responseText: "Mock",
+            stopReason: "customStopTrigger",
+            customStopTrigger: ["\n", "User:"]
+          })
+        }
+      )
+
+      const engine = new LLMEngine({ model: "gemma" })
+      const tokens: string[] = []
+      const result = await engine.generateStreaming(
+        { prompt: "Hello", stop: ["\nUser:"] },
+        (token) => tokens.push(token)
+      )
+
+      expect(tokens).toEqual(["Mock"])
+      expect(result.stopSequence).toBe("\nUser:")
+    })
+
+    it("should auto-initialize if not initialized", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.generateStreaming({ prompt: "Hello" }, vi.fn())
+      expect(result.text).toBe("Mock response")
+    })
+
+    it("should handle systemPrompt in streaming", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.generateStreaming(
+        {
+          prompt: "Hello",
+          systemPrompt: "Be concise"
+        },
+        vi.fn()
+      )
+
+      expect(result.text).toBe("Mock response")
+    })
+  })
+
+  describe("thinking", () => {
+    interface ThinkingCallOptions {
+      prompt?: string
+      maxTokens: number
+      budgets: { thoughtTokens?: number }
+    }
+
+    function callOptions(): ThinkingCallOptions {
+      const [prompt, options] = mockPromptWithMeta.mock.calls[0] as [string, ThinkingCallOptions]
+      return { ...options, prompt }
+    }
+
+    function mockThoughtResponse() {
+      mockPromptWithMeta.mockImplementationOnce(
+        (
+          _prompt: string,
+          options: {
+            onResponseChunk: (chunk: object) => void
+            onTextChunk: (text: string) => void
+          }
+        ) => {
+          options.onResponseChunk({ type: "segment", segmentType: "thought", text: "Let me " })
+          options.onResponseChunk({ type: "segment", segmentType: "thought", text: "think" })
+          options.onResponseChunk({ type: undefined, text: "42" })
+          options.onTextChunk("42")
+          return Promise.resolve({
+            response: [{ type: "segment", segmentType: "thought", text: "Let me think" }, "42"],
+            responseText: "42",
+            stopReason: "eogToken"
+          })
+        }
+      )
+    }
+
+    it("should return reasoning separately from the answer", async () => {
+      mockThoughtResponse()
+      const engine = new LLMEngine({ model: "qwen3-8b", enableThinking: true })
+      const result = await engine.generate({ prompt: "Question" })
+
+      expect(result.text).toBe("42")
+      expect(result.thinking).toBe("Let me think")
+    })
+
+    it("should not set thinking when the model did not think", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.generate({ prompt: "Hello" })
+      expect(result.thinking).toBeUndefined()
+    })
+
+    it("should stream thoughts to onThought and answers to onToken", async () => {
+      mockThoughtResponse()
+      const engine = new LLMEngine({ model: "qwen3-8b", enableThinking: true })
+      const tokens: string[] = []
+      const thoughts: string[] = []
+
+      await engine.generateStreaming(
+        { prompt: "Question" },
+        (token) => tokens.push(token),
+        (thought) => thoughts.push(thought)
+      )
+
+      expect(tokens).toEqual(["42"])
+      expect(thoughts).toEqual(["Let me ", "think"])
+    })
+
+    it("should disable Qwen3 thinking by default without changing the prompt", async () => {
+      const engine = new LLMEngine({ model: "qwen3-8b" })
+      await engine.generate({ prompt: "Hello" })
+
+      const options = callOptions()
+      expect(options.prompt).toBe("Hello")
+      expect(options.budgets.thoughtTokens).toBe(0)
+      expect(options.maxTokens).toBe(256)
+    })
+
+    it("should let DeepSeek R1 think by default with more tokens", async () => {
+      const engine = new LLMEngine({ model: "deepseek-r1-7b" })
+      await engine.generate({ prompt: "Hello" })
+
+      expect(callOptions().budgets.thoughtTokens).toBeUndefined()
+      expect(callOptions().maxTokens).toBe(512)
+    })
+
+    it("should let per-call options override the engine option", async () => {
+      const engine = new LLMEngine({ model: "qwen3-8b", enableThinking: true })
+      await engine.generate({ prompt: "Hello", enableThinking: false })
+
+      expect(callOptions().budgets.thoughtTokens).toBe(0)
+    })
+
+    it("should pass thinkingBudget as the thought token budget", async () => {
+      const engine = new LLMEngine({ model: "qwen3-8b" })
+      await engine.generate({ prompt: "Hello", enableThinking: true, thinkingBudget: 64 })
+
+      expect(callOptions().budgets.thoughtTokens).toBe(64)
+      expect(callOptions().maxTokens).toBe(512)
+    })
+
+    it("should keep thinking budgets off for models without a thinking mode", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.generate({ prompt: "Hello", enableThinking: false })
+
+      expect(callOptions().budgets.thoughtTokens).toBeUndefined()
+    })
+  })
+
+  describe("stream", () => {
+    it("should yield token, usage and done events", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const events: StreamEvent[] = []
+
+      for await (const event of engine.stream({ prompt: "Hello" })) {
+        events.push(event)
+      }
+
+      expect(events.map((e) => e.type)).toEqual(["token", "usage", "done"])
+      expect(events[0]).toEqual({ type: "token", text: "Mock response" })
+      expect(events[1]).toEqual({ type: "usage", promptTokenCount: 12, tokenCount: 3 })
+      expect(events[2]).toMatchObject({ type: "done", result: { text: "Mock response" } })
+    })
+
+    it("should yield thought events for thought segments", async () => {
+      mockPromptWithMeta.mockImplementationOnce(
+        (
+          _prompt: string,
+          options: {
+            onResponseChunk: (chunk: object) => void
+            onTextChunk: (text: string) => void
+          }
+        ) => {
+          options.onResponseChunk({ type: "segment", segmentType: "thought", text: "Let me think" })
+          options.onResponseChunk({ type: undefined, text: "Answer" })
+          options.onTextChunk("Answer")
+          return Promise.resolve({
+            response: ["Answer"],
+            responseText: "Answer",
+            stopReason: "eogToken"
+          })
+        }
+      )
+
+      const engine = new LLMEngine({ model: "gemma" })
+      const events: StreamEvent[] = []
+      for await (const event of engine.stream({ prompt: "Hello" })) {
+        events.push(event)
+      }
+
+      expect(events.slice(0, 2)).toEqual([
+        { type: "thought", text: "Let me think" },
+        { type: "token", text: "Answer" }
+      ])
+    })
+
+    it("should attach log probabilities to token events", async () => {
+      mockEvaluatedAnswer()
+      const engine = new LLMEngine({ model: "gemma" })
+      const events: StreamEvent[] = []
+      for await (const event of engine.stream({ prompt: "Hello", logprobs: 2 })) {
+        events.push(event)
+      }
+
+      expect(events.slice(0, 2)).toMatchObject([
+        { type: "token", text: "H", logprobs: [{ id: 72, topLogprobs: [{ id: 72 }, { id: 33 }] }] },
+        {
+          type: "token",
+          text: "i",
+          logprobs: [{ id: 105, topLogprobs: [{ id: 105 }, { id: 33 }] }]
+        }
+      ])
+    })
+
+    it("should yield an error event when generation fails", async () => {
+      mockPromptWithMeta.mockRejectedValueOnce(new Error("Native failure"))
+      const engine = new LLMEngine({ model: "gemma" })
+      const events: StreamEvent[] = []
+
+      for await (const event of engine.stream({ prompt: "Hello" })) {
+        events.push(event)
+      }
+
+      expect(events).toHaveLength(1)
+      expect(events[0]?.type).toBe("error")
+    })
+
+    it("should support consecutive streams on one engine", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+
+      for (let i = 0; i < 2; i++) {
+        const types: string[] = []
+        for await (const event of engine.stream({ prompt: "Hello" })) {
+          types.push(event.type)
+        }
+        expect(types).toEqual(["token", "usage", "done"])
+      }
+    })
+  })
+
+  describe("mode", () => {
+    interface SessionInternals {
+      setChatHistory: Mock
+      getChatHistory: Mock
+    }
+
+    const sessionOf = (engine: LLMEngine) =>
+      (engine as unknown as { sessions: SessionInternals[] }).sessions[0]
+
+    it("should continue the history in stateful mode", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.generate({ prompt: "Hello" })
+      await engine.generate({ prompt: "Again" })
+
+      expect(sessionOf(engine).setChatHistory).not.toHaveBeenCalled()
+    })
+
+    it("should start every generate() from an empty history in stateless mode", async () => {
+      const engine = new LLMEngine({ model: "gemma", mode: "stateless" })
+      await engine.generate({ prompt: "Hello" })
+      await engine.generate({ prompt: "Again" })
+
+      expect(sessionOf(engine).setChatHistory).toHaveBeenCalledTimes(2)
+      expect(sessionOf(engine).setChatHistory).toHaveBeenLastCalledWith([])
+    })
+
+    it("should start the history over when generate() sets a system prompt", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.generate({ prompt: "Hello" })
+      await engine.generate({ prompt: "Again", systemPrompt: "Be brief" })
+
+      expect(sessionOf(engine).setChatHistory).toHaveBeenCalledExactlyOnceWith([
+        { type: "system", text: "Be brief" }
+      ])
+    })
+
+    it("should default to stateless mode when several sessions are pooled", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxConcurrency: 2 })
+      await engine.generate({ prompt: "Hello" })
+
+      expect(sessionOf(engine).setChatHistory).toHaveBeenCalledWith([])
+    })
+
+    it("should reject stateful mode when several sessions are pooled", () => {
+      expect(() => new LLMEngine({ model: "gemma", mode: "stateful", maxConcurrency: 2 })).toThrow(
+        'mode "stateful" needs a single session'
+      )
+      expect(
+        () => new LLMEngine({ model: "gemma", mode: "stateful", prefixCache: { maxEntries: 2 } })
+      ).toThrow('mode "stateful" needs a single session')
+    })
+
+    it("should restore the stateful history after a batch", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.generate({ prompt: "Hello" })
+      const history = [
+        { type: "user", text: "Hello" },
+        { type: "model", response: ["Mock response"] }
+      ]
+      sessionOf(engine).getChatHistory.mockReturnValue(history)
+
+      await engine.generateBatch([{ prompt: "a" }, { prompt: "b" }])
+
+      const calls = sessionOf(engine).setChatHistory.mock.calls
+      expect(calls).toEqual([[[]], [history], [[]], [history]])
+    })
+
+    it("should reset the history for single-message chats", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.chat([{ role: "user", content: "Hello" }])
+
+      expect(sessionOf(engine).setChatHistory).toHaveBeenCalledWith([])
+    })
+
+    it("should keep the session's own items for matching messages in stateful mode", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.chat([{ role: "user", content: "Hi" }])
+      const answer = {
+        type: "model",
+        response: [{ type: "segment", segmentType: "thought", text: "hmm", ended: true }, "Hello!"]
+      }
+      sessionOf(engine).getChatHistory.mockReturnValue([{ type: "user", text: "Hi" }, answer])
+
+      await engine.chat([
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+        { role: "user", content: "How are you?" }
+      ])
+
+      // The evaluated answer keeps its reasoning segment
+      expect(sessionOf(engine).setChatHistory).toHaveBeenLastCalledWith([
+        { type: "user", text: "Hi" },
+        answer
+      ])
+    })
+
+    it("should replace diverging history", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.chat([{ role: "user", content: "Hi" }])
+      sessionOf(engine).getChatHistory.mockReturnValue([
+        { type: "user", text: "Hi" },
+        { type: "model", response: ["Hello!"] }
+      ])
+
+      await engine.chat([
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hey" },
+        { role: "user", content: "How are you?" }
+      ])
+
+      expect(sessionOf(engine).setChatHistory).toHaveBeenLastCalledWith([
+        { type: "user", text: "Hi" },
+        { type: "model", response: ["Hey"] }
+      ])
+    })
+
+    it("should use the given messages as they are in stateless mode", async () => {
+      const engine = new LLMEngine({ model: "gemma", mode: "stateless" })
+      await engine.chat([{ role: "user", content: "Hi" }])
+      sessionOf(engine).getChatHistory.mockReturnValue([
+        { type: "user", text: "Hi" },
+        {
+          type: "model",
+          response: [{ type: "segment", segmentType: "thought", text: "hmm", ended: true }, "Hi!"]
+        }
+      ])
+
+      await engine.chat([
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hi!" },
+        { role: "user", content: "How are you?" }
+      ])
+
+      expect(sessionOf(engine).setChatHistory).toHaveBeenLastCalledWith([
+        { type: "user", text: "Hi" },
+        { type: "model", response: ["Hi!"] }
+      ])
+    })
+  })
+
+  describe("prefix cache", () => {
+    interface SessionInternals {
+      sequence: { contextTokens: number[] }
+      preloadPrompt: Mock
+    }
+
+    const sessionsOf = (engine: LLMEngine) =>
+      (engine as unknown as { sessions: SessionInternals[] }).sessions
+
+    it("should report prompt tokens reused from the sequence", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const first = await engine.generate({ prompt: "Hello" })
+      // The mock renders every prompt as 12 zero tokens
+      sessionsOf(engine)[0].sequence.contextTokens = [0, 0, 0, 0, 0, 1]
+
+      const second = await engine.generate({ prompt: "Hello" })
+
+      expect(first.cachedPromptTokens).toBe(0)
+      expect(second.cachedPromptTokens).toBe(5)
+    })
+
+    it("should report hits and misses for system prompts", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const miss = await engine.generate({ prompt: "Hi", systemPrompt: "Be brief" })
+      const hit = await engine.generate({ prompt: "Hi", systemPrompt: "Be brief" })
+      const chat = await engine.chat([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Hi" }
+      ])
+      const none = await engine.generate({ prompt: "Hi" })
+
+      expect(miss.prefixCacheHit).toBe(false)
+      expect(hit.prefixCacheHit).toBe(true)
+      expect(chat.prefixCacheHit).toBe(true)
+      expect(none.prefixCacheHit).toBeUndefined()
+    })
+
+    it("should keep several system prompts on separate sequences", async () => {
+      const engine = new LLMEngine({
+        model: "gemma",
+        maxSequences: 2,
+        prefixCache: { maxEntries: 2 }
+      })
+
+      await engine.generate({ prompt: "Hi", systemPrompt: "A" })
+      await engine.generate({ prompt: "Hi", systemPrompt: "B" })
+      const a = await engine.generate({ prompt: "Hi", systemPrompt: "A" })
+      const b = await engine.generate({ prompt: "Hi", systemPrompt: "B" })
+
+      expect(sessionsOf(engine)).toHaveLength(2)
+      expect([a.prefixCacheHit, b.prefixCacheHit]).toEqual([true, true])
+    })
+
+    it("should evict the least recently used system prompt", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+
+      await engine.generate({ prompt: "Hi", systemPrompt: "A" })
+      await engine.generate({ prompt: "Hi", systemPrompt: "B" })
+      const a = await engine.generate({ prompt: "Hi", systemPrompt: "A" })
+
+      expect(sessionsOf(engine)).toHaveLength(1)
+      expect(a.prefixCacheHit).toBe(false)
+    })
+
+    it("should preload a system prompt", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.preloadPrefix("Be brief")
+      await engine.preloadPrefix("Be brief")
+
+      const result = await engine.generate({ prompt: "Hi", systemPrompt: "Be brief" })
+
+      expect(sessionsOf(engine)[0].preloadPrompt).toHaveBeenCalledTimes(1)
+      expect(result.prefixCacheHit).toBe(true)
+    })
+
+    it("should be possible to disable the cache", async () => {
+      const engine = new LLMEngine({ model: "gemma", prefixCache: false })
+      const result = await engine.generate({ prompt: "Hi", systemPrompt: "Be brief" })
+
+      expect(result.prefixCacheHit).toBeUndefined()
+      await expect(engine.preloadPrefix("Be brief")).rejects.toThrow("prefix cache")
+    })
+
+    it("should not allow more entries than sequences", () => {
+      expect(
+        () => new LLMEngine({ model: "gemma", maxSequences: 1, prefixCache: { maxEntries: 2 } })
+      ).toThrow("cannot exceed maxSequences")
+    })
+  })
+
+  describe("generateBatch", () => {
+    function respondAfter(delays: Record<string, number>) {
+      mockPromptWithMeta.mockImplementation(async (prompt: string) => {
+        await new Promise((resolve) => setTimeout(resolve, delays[prompt] ?? 0))
+        if (prompt === "fail") {
+          throw new Error("Native failure")
+        }
+        return { response: [prompt], responseText: prompt, stopReason: "eogToken" }
+      })
+    }
+
+    it("should return results in input order", async () => {
+      respondAfter({ a: 30, b: 0, c: 10 })
+      const engine = new LLMEngine({ model: "gemma", maxConcurrency: 3 })
+
+      const results = await engine.generateBatch([
+        { prompt: "a" },
+        { prompt: "b" },
+        { prompt: "c" }
+      ])
+
+      expect(results.map((item) => (item.ok ? item.result.text : undefined))).toEqual([
+        "a",
+        "b",
+        "c"
+      ])
+    })
+
+    it("should report per-item errors without failing the batch", async () => {
+      respondAfter({})
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const results = await engine.generateBatch([{ prompt: "ok" }, { prompt: "fail" }])
+
+      expect(results[0]).toMatchObject({ ok: true, result: { text: "ok" } })
+      expect(results[1]).toMatchObject({ ok: false, error: new Error("Native failure") })
+    })
+
+    it("should decode items in parallel up to the concurrency", async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      mockPromptWithMeta.mockImplementation(async (prompt: string) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight--
+        return { response: [prompt], responseText: prompt, stopReason: "eogToken" }
+      })
+      const engine = new LLMEngine({ model: "gemma", maxConcurrency: 4 })
+
+      await engine.generateBatch(
+        Array.from({ length: 8 }, (_, i) => ({ prompt: String(i) })),
+        { concurrency: 2 }
+      )
+
+      expect(maxInFlight).toBe(2)
+    })
+
+    it("should overlap items up to maxConcurrency by default", async () => {
+      const started: string[] = []
+      const gate = { release: (): void => undefined }
+      const blocked = new Promise<void>((resolve) => (gate.release = resolve))
+      mockPromptWithMeta.mockImplementation(async (prompt: string) => {
+        started.push(prompt)
+        await blocked
+        return { response: [prompt], responseText: prompt, stopReason: "eogToken" }
+      })
+      const engine = new LLMEngine({ model: "gemma", maxConcurrency: 3 })
+
+      const batch = engine.generateBatch(["a", "b", "c", "d"].map((prompt) => ({ prompt })))
+      await vi.waitFor(() => expect(started).toEqual(["a", "b", "c"]))
+      gate.release()
+
+      expect(await batch).toHaveLength(4)
+      expect(started).toEqual(["a", "b", "c", "d"])
+    })
+
+    it("should reject a concurrency above maxConcurrency", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await expect(engine.generateBatch([{ prompt: "a" }], { concurrency: 4 })).rejects.toThrow(
+        "concurrency (4) cannot exceed maxConcurrency (1)"
+      )
+      expect(mockPromptWithMeta).not.toHaveBeenCalled()
+    })
+
+    it("should emit progress events", async () => {
+      respondAfter({})
+      const engine = new LLMEngine({ model: "gemma" })
+      const onProgress = vi.fn()
+
+      await engine.generateBatch([{ prompt: "a" }, { prompt: "fail" }], { onProgress })
+
+      expect(onProgress).toHaveBeenCalledTimes(2)
+      expect(onProgress.mock.calls.map(([progress]) => progress as object)).toMatchObject([
+        { index: 0, item: { ok: true }, completed: 1, total: 2 },
+        { index: 1, item: { ok: false }, completed: 2, total: 2 }
+      ])
+    })
+
+    it("should start every item with a fresh history", async () => {
+      const engine = new LLMEngine({ model: "gemma", mode: "stateless" })
+      await engine.generateBatch([{ prompt: "a" }, { prompt: "b" }])
+
+      const [session] = (engine as unknown as { sessions: { setChatHistory: Mock }[] }).sessions
+      expect(session.setChatHistory).toHaveBeenCalledTimes(2)
+      expect(session.setChatHistory).toHaveBeenCalledWith([])
+    })
+
+    it("should handle an empty batch", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      expect(await engine.generateBatch([])).toEqual([])
+    })
+  })
+
+  describe("embed", () => {
+    it("should return a normalized Float32Array for a single text", async () => {
+      const engine = new LLMEngine({ model: "bge-m3" })
+      const vector = await engine.embed("abcd")
+
+      expect(vector).toBeInstanceOf(Float32Array)
+      expect(Array.from(vector)).toEqual([
+        expect.closeTo(Math.SQRT1_2),
+        expect.closeTo(Math.SQRT1_2)
+      ])
+    })
+
+    it("should return one vector per text in input order", async () => {
+      const engine = new LLMEngine({ model: "bge-m3" })
+      const vectors = await engine.embed(["a", "abc"], { normalize: false })
+
+      expect(vectors.map((vector) => Array.from(vector))).toEqual([
+        [1, 0],
+        [3, 0]
+      ])
+    })
+
+    it("should pool the chunks of texts longer than the context", async () => {
+      // Context of 8 tokens leaves chunks of 6 after the beginning and end tokens
+      const engine = new LLMEngine({ model: "bge-m3" })
+      const text = "a".repeat(10)
+
+      const mean = await engine.embed(text, { normalize: false })
+      const max = await engine.embed(text, { normalize: false, pooling: "max" })
+      const first = await engine.embed(text, { normalize: false, pooling: "first" })
+
+      expect(Array.from(mean)).toEqual([5, 2])
+      expect(Array.from(max)).toEqual([6, 4])
+      expect(Array.from(first)).toEqual([6, 0])
+    })
+
+    it("should return a zero vector of the embedding size for empty text", async () => {
+      const engine = new LLMEngine({ model: "bge-m3" })
+      expect(Array.from(await engine.embed(""))).toEqual([0, 0])
+    })
+
+    it("should not create a generation context for embedding models", async () => {
+      const engine = new LLMEngine({ model: "bge-m3" })
+      await engine.initialize()
+
+      const model = (engine as unknown as { model: { createContext: Mock } }).model
+      expect(model.createContext).not.toHaveBeenCalled()
+      await expect(engine.generate({ prompt: "Hello" })).rejects.toThrow(
+        "is an embedding model; use embed()"
+      )
+    })
+
+    it("should work with text models too", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const vector = await engine.embed("ab", { normalize: false })
+      expect(Array.from(vector)).toEqual([2, 0])
+    })
+
+    it("should dispose the embedding context", async () => {
+      const engine = new LLMEngine({ model: "bge-m3" })
+      await engine.embed("a")
+      const context = (engine as unknown as { embeddingContext: { dispose: Mock } })
+        .embeddingContext
+      await engine.dispose()
+
+      expect(context.dispose).toHaveBeenCalled()
+    })
+  })
+
+  describe("rerank", () => {
+    // Leaves chunks of 7 tokens after the one-token query and the template reserve
+    const reranker = () => new LLMEngine({ model: "bge-reranker-v2-m3", contextSize: 24 })
+
+    beforeEach(() => {
+      mockFileInsights.supportsRanking = true
+    })
+
+    afterEach(() => {
+      mockFileInsights.supportsRanking = false
+    })
+
+    it("should return documents sorted by reranker score", async () => {
+      const engine = reranker()
+      const results = await engine.rerank("q", ["ab", "zz", "az"])
+
+      expect(results).toEqual([
+        { index: 1, score: 1, document: "zz" },
+        { index: 2, score: 0.5, document: "az" },
+        { index: 0, score: 0, document: "ab" }
+      ])
+    })
+
+    it("should return only the best topN documents", async () => {
+      const engine = reranker()
+      const results = await engine.rerank("q", ["ab", "zz", "az"], { topN: 1 })
+
+      expect(results.map((result) => result.index)).toEqual([1])
+    })
+
+    it("should score long documents by their best chunk", async () => {
+      const engine = reranker()
+      const results = await engine.rerank("q", ["aaaaaaazz", "aaaaaaaz"])
+
+      expect(results.map((result) => result.score)).toEqual([1, 1])
+      const context = (engine as unknown as { rankingContext: { rankAll: Mock } }).rankingContext
+      expect(context.rankAll.mock.calls[0]?.[1]).toHaveLength(4)
+    })
+
+    it("should score large batches in parts", async () => {
+      const engine = reranker()
+      const results = await engine.rerank("q", new Array<string>(40).fill("az"))
+
+      expect(results).toHaveLength(40)
+      const context = (engine as unknown as { rankingContext: { rankAll: Mock } }).rankingContext
+      expect(context.rankAll).toHaveBeenCalledTimes(2)
+    })
+
+    it("should fall back to embedding similarity without a ranking head", async () => {
+      mockFileInsights.supportsRanking = false
+      const engine = new LLMEngine({ model: "bge-m3" })
+      const results = await engine.rerank("abcd", ["abc", "wxyz"])
+
+      expect(results.map((result) => result.index)).toEqual([1, 0])
+      expect(results[0]?.score).toBeCloseTo(1)
+    })
+
+    it("should not generate text with reranker models", async () => {
+      const engine = new LLMEngine({ model: "bge-reranker-v2-m3" })
+      await expect(engine.generate({ prompt: "Hello" })).rejects.toThrow(
+        "is a reranker model; use rerank()"
+      )
+    })
+
+    it("should dispose the ranking context", async () => {
+      const engine = reranker()
+      await engine.rerank("q", ["a"])
+      const context = (engine as unknown as { rankingContext: { dispose: Mock } }).rankingContext
+      await engine.dispose()
+
+      expect(context.dispose).toHaveBeenCalled()
+    })
+  })
+
+  describe("tokenizer", () => {
+    it("should tokenize and detokenize text", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const tokens = await engine.tokenize("Hi!")
+
+      expect(tokens).toEqual([72, 105, 33])
+      expect(await engine.detokenize(tokens)).toBe("Hi!")
+      expect(await engine.countTokens("Hello")).toBe(5)
+    })
+
+    it("should count chat tokens through the chat template", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const count = await engine.countChatTokens([
+        { role: "system", content: "ab" },
+        { role: "user", content: "abc" }
+      ])
+
+      // Both messages plus the opening of the answer, each with two template tokens
+      expect(count).toBe(4 + 5 + 2)
+    })
+
+    it("should check whether a prompt and its answer fit in the context", async () => {
+      // The mock context holds 512 tokens; a prompt of n characters renders to n + 4
+      const engine = new LLMEngine({ model: "gemma" })
+
+      expect(await engine.fitsInContext("a".repeat(488), { maxTokens: 20 })).toBe(true)
+      expect(await engine.fitsInContext("a".repeat(488), { maxTokens: 21 })).toBe(false)
+      expect(
+        await engine.fitsInContext("a".repeat(488), { maxTokens: 20, systemPrompt: "Be brief" })
+      ).toBe(false)
+    })
+
+    it("should reserve the default maxTokens", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+
+      expect(await engine.fitsInContext("a".repeat(252))).toBe(true)
+      expect(await engine.fitsInContext([{ role: "user", content: "a".repeat(253) }])).toBe(false)
+    })
+  })
+
+  describe("generateObject", () => {
+    const jsonResponse = (text: string, stopReason = "eogToken") => ({
+      response: [text],
+      responseText: text,
+      stopReason
+    })
+
+    it("should return the parsed object", async () => {
+      mockPromptWithMeta.mockResolvedValueOnce(jsonResponse('{"name":"Ada","born":1815}'))
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const result = await engine.generateObject({
+        prompt: "Extract the person: Ada Lovelace, born 1815",
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            born: { type: "integer" }
+          }
+        }
+      })
+
+      expect(result.object).toEqual({ name: "Ada", born: 1815 })
+      expect(result.text).toBe('{"name":"Ada","born":1815}')
+      expectTypeOf(result.object).toEqualTypeOf<{ name: string; born: number }>()
+    })
+
+    it("should constrain generation with the schema grammar", async () => {
+      mockPromptWithMeta.mockResolvedValueOnce(jsonResponse('"yes"'))
+      const engine = new LLMEngine({ model: "gemma" })
+
+      await engine.generateObject({ prompt: "Yes or no?", schema: { enum: ["yes", "no"] } })
+
+      const options = mockPromptWithMeta.mock.calls[0]?.[1] as { grammar?: unknown }
+      expect(options.grammar).toBeDefined()
+    })
+
+    it("should throw SchemaValidationError for invalid output", async () => {
+      mockPromptWithMeta.mockResolvedValueOnce(jsonResponse('{"name":', "maxTokens"))
+      const engine = new LLMEngine({ model: "gemma" })
+
+      const error: unknown = await engine
+        .generateObject({ prompt: "Hello", schema: { type: "object", properties: {} } })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(SchemaValidationError)
+      expect((error as SchemaValidationError).text).toBe('{"name":')
+      expect((error as SchemaValidationError).finishReason).toBe("length")
+      expect((error as SchemaValidationError).message).toContain("truncated")
+    })
+
+    it("should throw GenerationAbortedError when cancelled", async () => {
+      mockPromptWithMeta.mockResolvedValueOnce(jsonResponse("{", "abort"))
+      const engine = new LLMEngine({ model: "gemma" })
+
+      await expect(
+        engine.generateObject({ prompt: "Hello", schema: { type: "string" } })
+      ).rejects.toBeInstanceOf(GenerationAbortedError)
+    })
+  })
+
+  describe("chat", () => {
+    it("should handle chat messages", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.chat([
+        { role: "system", content: "You are helpful" },
+        { role: "user", content: "Hello" }
+      ])
+
+      expect(result.text).toBe("Mock response")
+    })
+
+    it("should handle assistant messages in history", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.chat([
+        { role: "system", content: "You are helpful" },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+        { role: "user", content: "How are you?" }
+      ])
+
+      expect(result.text).toBe("Mock response")
+    })
+
+    it("should throw if last message is not from user", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await expect(
+        engine.chat([
+          { role: "user", content: "Hello" },
+          { role: "assistant", content: "Hi!" }
+        ])
+      ).rejects.toThrow("Last message must be from user")
+    })
+
+    it("should accept generation options", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.chat([{ role: "user", content: "Hello" }], {
+        maxTokens: 50,
+        temperature: 0.3
+      })
+
+      expect(result.text).toBe("Mock response")
+    })
+
+    it("should auto-initialize if not initialized", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      const result = await engine.chat([{ role: "user", content: "Hello" }])
+      expect(result.text).toBe("Mock response")
+    })
+
+    describe("tools", () => {
+      const getWeather = defineTool({
+        name: "getWeather",
+        parameters: { type: "object", properties: { city: { type: "string" } } },
+        handler: ({ city }) => ({ city, temperature: 21 })
+      })
+
+      it("should run tool calls and return them with the answer", async () => {
+        mockPromptWithMeta.mockImplementationOnce(
+          async (
+            _prompt: string,
+            options: { functions: Record<string, { handler: (args: unknown) => unknown }> }
+          ) => {
+            const weather = await options.functions.getWeather.handler({ city: "Berlin" })
+            const text = `It is ${(weather as { temperature: number }).temperature}°C`
+            return { response: [text], responseText: text, stopReason: "eogToken" }
+          }
+        )
+
+        const engine = new LLMEngine({ model: "qwen3-8b" })
+        const result = await engine.chat([{ role: "user", content: "Weather in Berlin?" }], {
+          tools: [getWeather]
+        })
+
+        expect(result.text).toBe("It is 21°C")
+        expect(result.toolCalls).toEqual([
+          {
+            name: "getWeather",
+            arguments: { city: "Berlin" },
+            result: { city: "Berlin", temperature: 21 }
+          }
+        ])
+      })
+
+      it("should not set toolCalls without tools", async () => {
+        const engine = new LLMEngine({ model: "qwen3-8b" })
+        const result = await engine.chat([{ role: "user", content: "Hello" }])
+
+        expect(result.toolCalls).toBeUndefined()
+        const options = mockPromptWithMeta.mock.calls[0]?.[1] as { functions?: unknown }
+        expect(options.functions).toBeUndefined()
+      })
+
+      it("should reject tools for models without tool support", async () => {
+        const engine = new LLMEngine({ model: "phi-4" })
+        await expect(
+          engine.chat([{ role: "user", content: "Hello" }], { tools: [getWeather] })
+        ).rejects.toThrow('Model "phi-4" does not support tool calling')
+      })
+
+      it("should allow tools for custom models", async () => {
+        const engine = new LLMEngine({ model: "/custom/model.gguf" })
+        const result = await engine.chat([{ role: "user", content: "Hello" }], {
+          tools: [getWeather]
+        })
+
+        expect(result.toolCalls).toEqual([])
+      })
+
+      it("should replay tool calls from assistant messages", async () => {
+        const engine = new LLMEngine({ model: "qwen3-8b" })
+
+        await engine.chat([
+          { role: "user", content: "Weather in Berlin?" },
+          {
+            role: "assistant",
+            content: "It is 21°C",
+            toolCalls: [{ name: "getWeather", arguments: { city: "Berlin" }, result: 21 }]
+          },
+          { role: "user", content: "Thanks!" }
+        ])
+
+        const [session] = (engine as unknown as { sessions: { setChatHistory: Mock }[] }).sessions
+        expect(session.setChatHistory).toHaveBeenCalledWith([
+          { type: "user", text: "Weather in Berlin?" },
+          {
+            type: "model",
+            response: [
+              { type: "functionCall", name: "getWeather", params: { city: "Berlin" }, result: 21 },
+              "It is 21°C"
+            ]
+          }
+        ])
+      })
+    })
+  })
+
+  describe("conversations", () => {
+    interface SessionInternals {
+      setChatHistory: Mock
+      getChatHistory: Mock
+      dispose: Mock
+    }
+
+    function sessionOf(conversation: Conversation): SessionInternals {
+      return (conversation as unknown as { session: SessionInternals }).session
+    }
+
+    it("should start with the system prompt", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation({ systemPrompt: "Be brief" })
+
+      expect(sessionOf(conversation).setChatHistory).toHaveBeenCalledWith([
+        { type: "system", text: "Be brief" }
+      ])
+    })
+
+    it("should send messages on its own session", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 3 })
+      const alice = await engine.createConversation()
+      const bob = await engine.createConversation()
+
+      const [a, b] = await Promise.all([alice.send("Hi, I'm Alice"), bob.send("Hi, I'm Bob")])
+
+      expect(a.text).toBe("Mock response")
+      expect(b.text).toBe("Mock response")
+      expect(sessionOf(alice)).not.toBe(sessionOf(bob))
+      expect(mockPromptWithMeta).toHaveBeenCalledWith("Hi, I'm Alice", expect.anything())
+      expect(mockPromptWithMeta).toHaveBeenCalledWith("Hi, I'm Bob", expect.anything())
+    })
+
+    it("should run overlapping sends one after another", async () => {
+      const started: string[] = []
+      const gate = { release: (): void => undefined }
+      const blocked = new Promise<void>((resolve) => (gate.release = resolve))
+      mockPromptWithMeta.mockImplementation(async (prompt: string) => {
+        started.push(prompt)
+        await blocked
+        return { response: [prompt], responseText: prompt, stopReason: "eogToken" }
+      })
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+
+      const first = conversation.send("First")
+      const second = conversation.send("Second")
+      await vi.waitFor(() => expect(started).toEqual(["First"]))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(started).toEqual(["First"])
+      gate.release()
+
+      expect((await first).text).toBe("First")
+      expect((await second).text).toBe("Second")
+      expect(started).toEqual(["First", "Second"])
+    })
+
+    it("should create the context with maxSequences sequences", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 4 })
+      await engine.initialize()
+
+      const model = (engine as unknown as { model: { createContext: Mock } }).model
+      expect(model.createContext).toHaveBeenCalledWith(expect.objectContaining({ sequences: 4 }))
+    })
+
+    it("should only create the engine's own sequence by default", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.initialize()
+
+      const model = (engine as unknown as { model: { createContext: Mock } }).model
+      expect(model.createContext).toHaveBeenCalledWith(expect.objectContaining({ sequences: 1 }))
+      const error = await engine.createConversation().catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(ConversationLimitError)
+      expect(error).toMatchObject({ limit: 0 })
+    })
+
+    it("should leave the engine's own sequence to generate()", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+
+      const [result, reply] = await Promise.all([
+        engine.generate({ prompt: "Hello" }),
+        conversation.send("Hi")
+      ])
+      expect(result.text).toBe("Mock response")
+      expect(reply.text).toBe("Mock response")
+      const [session] = (engine as unknown as { sessions: SessionInternals[] }).sessions
+      expect(session).not.toBe(sessionOf(conversation))
+
+      const model = (engine as unknown as { model: { createContext: Mock } }).model
+      expect(model.createContext).toHaveBeenCalledWith(expect.objectContaining({ sequences: 2 }))
+    })
+
+    it("should throw ConversationLimitError when all conversation sequences are in use", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      await engine.generate({ prompt: "Hello" })
+      await engine.createConversation()
+
+      const error = await engine.createConversation().catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(ConversationLimitError)
+      expect(error).toMatchObject({ limit: 1 })
+      await expect(engine.generate({ prompt: "Still works" })).resolves.toBeDefined()
+    })
+
+    it("should free its sequence on dispose", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const first = await engine.createConversation()
+      first.dispose()
+
+      expect(first.disposed).toBe(true)
+      await expect(engine.createConversation()).resolves.toBeDefined()
+    })
+
+    it("should reject messages after dispose", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      conversation.dispose()
+
+      await expect(conversation.send("Hello")).rejects.toThrow("disposed")
+    })
+
+    it("should expose the history as chat messages", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      sessionOf(conversation).getChatHistory.mockReturnValue([
+        { type: "system", text: "Be brief" },
+        { type: "user", text: "Weather?" },
+        {
+          type: "model",
+          response: [
+            { type: "segment", segmentType: "thought", text: "hmm", ended: true },
+            { type: "functionCall", name: "getWeather", params: { city: "Berlin" }, result: 21 },
+            "It is 21°C"
+          ]
+        }
+      ])
+
+      expect(conversation.history).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Weather?" },
+        {
+          role: "assistant",
+          content: "It is 21°C",
+          toolCalls: [{ name: "getWeather", arguments: { city: "Berlin" }, result: 21 }]
+        }
+      ])
+    })
+
+    it("should keep the system prompt on reset", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation({ systemPrompt: "Be brief" })
+      await conversation.send("Hello")
+      conversation.reset()
+
+      expect(sessionOf(conversation).setChatHistory).toHaveBeenLastCalledWith([
+        { type: "system", text: "Be brief" }
+      ])
+    })
+
+    it("should stream answers", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      const events: StreamEvent[] = []
+
+      for await (const event of conversation.stream("Hello")) {
+        events.push(event)
+      }
+
+      expect(events.map((e) => e.type)).toEqual(["token", "usage", "done"])
+    })
+
+    it("should export the history and save the context state", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      sessionOf(conversation).getChatHistory.mockReturnValue([
+        { type: "system", text: "Be brief" },
+        { type: "user", text: "Hi" },
+        { type: "model", response: ["Hello!"] }
+      ])
+
+      const messages = await engine.exportSession(conversation, { stateFile: "/tmp/chat.state" })
+
+      expect(messages).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" }
+      ])
+      const { sequence } = sessionOf(conversation) as unknown as {
+        sequence: { saveStateToFile: Mock }
+      }
+      expect(sequence.saveStateToFile).toHaveBeenCalledWith("/tmp/chat.state")
+    })
+
+    it("should import a session into a new conversation", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.importSession(
+        [
+          { role: "system", content: "Be brief" },
+          { role: "user", content: "Hi" },
+          { role: "assistant", content: "Hello!" }
+        ],
+        { stateFile: "/tmp/chat.state", acceptRisk: true }
+      )
+
+      const session = sessionOf(conversation) as SessionInternals & {
+        sequence: { loadStateFromFile: Mock }
+      }
+      expect(session.sequence.loadStateFromFile).toHaveBeenCalledWith("/tmp/chat.state", {
+        acceptRisk: true
+      })
+      expect(session.setChatHistory).toHaveBeenLastCalledWith([
+        { type: "system", text: "Be brief" },
+        { type: "user", text: "Hi" },
+        { type: "model", response: ["Hello!"] }
+      ])
+
+      // The system prompt survives a reset
+      conversation.reset()
+      expect(session.setChatHistory).toHaveBeenLastCalledWith([
+        { type: "system", text: "Be brief" }
+      ])
+    })
+
+    it("should require acceptRisk to load a state file", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+
+      await expect(engine.importSession([], { stateFile: "/tmp/chat.state" })).rejects.toThrow(
+        "pass acceptRisk: true"
+      )
+      // No sequence was taken
+      await expect(engine.createConversation()).resolves.toBeDefined()
+    })
+
+    it("should release the sequence when the state file cannot be loaded", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      await engine.initialize()
+      const context = (engine as unknown as { context: { sequencesLeft: number } }).context
+
+      await expect(
+        engine.importSession([], { stateFile: "/missing.state", acceptRisk: true })
+      ).rejects.toThrow("ENOENT")
+      // Both sequences are free again
+      expect(context.sequencesLeft).toBe(2)
+    })
+
+    it("should not export disposed conversations", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      conversation.dispose()
+
+      await expect(engine.exportSession(conversation)).rejects.toThrow("disposed")
+    })
+
+    it("should be disposed with the engine", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      await engine.dispose()
+
+      expect(conversation.disposed).toBe(true)
+    })
+  })
+
+  describe("context strategy", () => {
+    interface HistoryItem {
+      type: string
+      text?: string
+      response?: string[]
+    }
+
+    interface SessionInternals {
+      setChatHistory: Mock
+      getChatHistory: Mock
+      chatWrapper: { generateContextState: Mock }
+    }
+
+    const long = "a".repeat(100)
+
+    // System prompt (10) + two turns (4 × 102) + prompt and answer opening (6) = 424 tokens
+    const history: HistoryItem[] = [
+      { type: "system", text: "Be brief" },
+      { type: "user", text: long },
+      { type: "model", response: [long] },
+      { type: "user", text: "b".repeat(100) },
+      { type: "model", response: ["b".repeat(100)] }
+    ]
+
+    /**
+     * Give a conversation a stateful history whose items cost their length plus two tokens
+     */
+    function useHistory(conversation: Conversation): () => HistoryItem[] {
+      const session = (conversation as unknown as { session: SessionInternals }).session
+      let current = history
+      session.getChatHistory.mockImplementation(() => current)
+      session.setChatHistory.mockImplementation((items: HistoryItem[]) => {
+        current = items
+      })
+      session.chatWrapper.generateContextState.mockImplementation(
+        ({ chatHistory }: { chatHistory: HistoryItem[] }) => {
+          const length = chatHistory
+            .map((item) => (item.text ?? item.response?.join("") ?? "").length + 2)
+            .reduce((sum, count) => sum + count, 0)
+          return { contextText: { tokenize: () => new Array<number>(length).fill(0) } }
+        }
+      )
+      return () => current
+    }
+
+    it("should drop the oldest turns and keep the system prompt", async () => {
+      const onContextTrim = vi.fn()
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2, onContextTrim })
+      const conversation = await engine.createConversation()
+      const getHistory = useHistory(conversation)
+
+      // 424 + 100 exceeds the 512 tokens of the mock context
+      await conversation.send("Hi", { maxTokens: 100 })
+
+      expect(getHistory()).toEqual([history[0], history[3], history[4]])
+      expect(onContextTrim).toHaveBeenCalledWith({
+        strategy: "truncate-oldest",
+        droppedMessages: [
+          { role: "user", content: long },
+          { role: "assistant", content: long }
+        ]
+      })
+    })
+
+    it("should leave the history alone while it fits", async () => {
+      const onContextTrim = vi.fn()
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2, onContextTrim })
+      const conversation = await engine.createConversation()
+      const getHistory = useHistory(conversation)
+
+      await conversation.send("Hi", { maxTokens: 88 })
+
+      expect(getHistory()).toBe(history)
+      expect(onContextTrim).not.toHaveBeenCalled()
+    })
+
+    it("should throw ContextOverflowError with the error strategy", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2, contextStrategy: "error" })
+      const conversation = await engine.createConversation()
+      useHistory(conversation)
+
+      const error: unknown = await conversation
+        .send("Hi", { maxTokens: 100 })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ContextOverflowError)
+      expect(error).toMatchObject({ promptTokenCount: 424, maxTokens: 100, contextSize: 512 })
+      expect(mockPromptWithMeta).not.toHaveBeenCalled()
+    })
+
+    it("should replace the oldest turns with a summary", async () => {
+      const onContextTrim = vi.fn()
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation({
+        contextStrategy: "summarize",
+        onContextTrim
+      })
+      const getHistory = useHistory(conversation)
+
+      await conversation.send("Hi", { maxTokens: 100 })
+
+      // Room for the summary is reserved, so both turns go
+      expect(mockPromptWithMeta.mock.calls[0]?.[0]).toContain(`assistant: ${"b".repeat(100)}`)
+      expect(getHistory()[1]).toEqual({
+        type: "system",
+        text: "Summary of the earlier conversation: Mock response"
+      })
+      expect(onContextTrim).toHaveBeenCalledWith({
+        strategy: "summarize",
+        droppedMessages: expect.any(Array) as unknown,
+        summary: "Mock response"
+      })
+    })
+
+    it("should cut the transcript to fit the context with the summary", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation({ contextStrategy: "summarize" })
+      useHistory(conversation)
+
+      await conversation.send("Hi", { maxTokens: 100 })
+
+      // The summary request and its answer opening (4) plus 256 summary tokens fit in 512
+      const summaryPrompt = String(mockPromptWithMeta.mock.calls[0]?.[0])
+      expect(summaryPrompt.length + 4 + 256).toBeLessThanOrEqual(512)
+      // The start of the transcript goes first
+      expect(summaryPrompt).not.toContain(long)
+      expect(summaryPrompt).toMatch(/assistant: b{100}$/)
+    })
+
+    it("should stop summarizing when the signal aborts", async () => {
+      const controller = new AbortController()
+      mockPromptWithMeta.mockImplementation(
+        (_prompt: string, options: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            // Like node-llama-cpp, reject right away once the signal is aborted
+            if (options.signal.aborted) {
+              reject(options.signal.reason as Error)
+            }
+            options.signal.addEventListener("abort", () => {
+              reject(options.signal.reason as Error)
+            })
+          })
+      )
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation({ contextStrategy: "summarize" })
+      const getHistory = useHistory(conversation)
+
+      const pending = conversation.send("Hi", { maxTokens: 100, signal: controller.signal })
+      await vi.waitFor(() => expect(mockPromptWithMeta).toHaveBeenCalledTimes(1))
+      controller.abort()
+
+      expect((await pending).finishReason).toBe("abort")
+      expect(getHistory()).toBe(history)
+    })
+
+    it("should throw when the prompt alone does not fit", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      const getHistory = useHistory(conversation)
+
+      await expect(conversation.send("a".repeat(600))).rejects.toBeInstanceOf(ContextOverflowError)
+      expect(getHistory()).toBe(history)
+    })
+
+    it("should report trims as stream events", async () => {
+      const engine = new LLMEngine({ model: "gemma", maxSequences: 2 })
+      const conversation = await engine.createConversation()
+      useHistory(conversation)
+      const events: StreamEvent[] = []
+
+      for await (const event of conversation.stream("Hi", { maxTokens: 100 })) {
+        events.push(event)
+      }
+
+      expect(events.map((e) => e.type)).toEqual(["contextTrim", "token", "usage", "done"])
+    })
+  })
+
+  describe("resetSession", () => {
+    it("should reset session after initialization", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.initialize()
+      engine.resetSession() // Should not throw
+    })
+
+    it("should be safe to call before initialization", () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      engine.resetSession() // Should not throw
+    })
+  })
+
+  describe("dispose", () => {
+    it("should clean up resources", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.initialize()
+      await engine.dispose()
+    })
+
+    it("should be safe to call before initialization", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.dispose() // Should not throw
+    })
+
+    it("should be safe to call multiple times", async () => {
+      const engine = new LLMEngine({ model: "gemma" })
+      await engine.initialize()
+      await engine.dispose()
+      await engine.dispose() // Should not throw
+    })
+  })
+})
+
+describe("Model resolution", () => {
+  it("should have gemma alias point to gemma-3n-e4b", () => {
+    const engine = new LLMEngine({ model: "gemma" })
+    const info = engine.getModelInfo()
+    expect(info).toEqual(MODELS["gemma-3n-e4b"])
+  })
+
+  it("should have qwen alias point to qwen3-8b", () => {
+    const engine = new LLMEngine({ model: "qwen" })
+    const info = engine.getModelInfo()
+    expect(info).toEqual(MODELS["qwen3-8b"])
+  })
+
+  it("should have deepseek alias point to deepseek-r1-7b", () => {
+    const engine = new LLMEngine({ model: "deepseek" })
+    const info = engine.getModelInfo()
+    expect(info).toEqual(MODELS["deepseek-r1-7b"])
+  })
+
+  it("should have phi alias point to phi-4", () => {
+    const engine = new LLMEngine({ model: "phi" })
+    const info = engine.getModelInfo()
+    expect(info).toEqual(MODELS["phi-4"])
+  })
+
+  it("should have qwen-coder alias point to qwen-2.5-coder-7b", () => {
+    const engine = new LLMEngine({ model: "qwen-coder" })
+    const info = engine.getModelInfo()
+    expect(info).toEqual(MODELS["qwen-2.5-coder-7b"])
+  })
+
+  it("should have gemma-fast alias point to gemma-3n-e2b", () => {
+    const engine = new LLMEngine({ model: "gemma-fast" })
+    const info = engine.getModelInfo()
+    expect(info).toEqual(MODELS["gemma-3n-e2b"])
+  })
+})
+
+describe("Model registry", () => {
+  const entry = {
+    name: "My Model",
+    file: "/models/my-model.gguf",
+    contextLength: 65536,
+    thinkingMode: "qwen" as const,
+    recommendedFor: ["reasoning" as const]
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, "log").mockImplementation(() => undefined)
+    modelRegistry.registerModel("my-model", entry)
+    modelRegistry.registerAlias("mine", "my-model")
+  })
+
+  afterEach(() => {
+    modelRegistry.unregister("my-model")
+    vi.restoreAllMocks()
+  })
+
+  it("should resolve registered models and aliases", () => {
+    const engine = new LLMEngine({ model: "Mine" })
+    expect(engine.getModelInfo()).toEqual(entry)
+    expect(engine.getModelInfo().contextLength).toBe(65536)
+  })
+
+  it("should load the registered file and use its thinking mode", async () => {
+    const { resolveModelFile } = await import("node-llama-cpp")
+    const engine = new LLMEngine({ model: "my-model" })
+    await engine.generate({ prompt: "Hello" })
+
+    expect(resolveModelFile).toHaveBeenCalledWith("/models/my-model.gguf", expect.anything())
+    const options = mockPromptWithMeta.mock.calls[0]?.[1] as { budgets: { thoughtTokens?: number } }
+    // Qwen-style thinking is off by default
+    expect(options.budgets.thoughtTokens).toBe(0)
+  })
+
+  it("should be listed and recommended", () => {
+    expect(LLMEngine.listModels().map((model) => model.id)).toContain("my-model")
+    expect(LLMEngine.getModelForUseCase("reasoning")).toBe("my-model")
+    expect(LLMEngine.getModelForUseCase("code")).toBe("qwen-2.5-coder-7b")
+  })
+
+  it("should fall back to the curated pick once unregistered", () => {
+    modelRegistry.unregister("my-model")
+    expect(LLMEngine.getModelForUseCase("reasoning")).toBe("deepseek-r1-14b")
+    expect(new LLMEngine({ model: "mine" }).getModelInfo().description).toBe("Custom model")
+  })
+})
+
+describe("Static methods", () => {
+  describe("listModels", () => {
+    it("should return all models", () => {
+      const models = LLMEngine.listModels()
+      expect(models.length).toBeGreaterThan(0)
+      expect(models[0]).toHaveProperty("id")
+      expect(models[0]).toHaveProperty("name")
+      expect(models[0]).toHaveProperty("repo")
+    })
+
+    it("should include gemma-3n-e4b", () => {
+      const models = LLMEngine.listModels()
+      const gemma = models.find((m) => m.id === "gemma-3n-e4b")
+      expect(gemma).toBeDefined()
+      expect(gemma?.name).toBe("Gemma 3n E4B")
+    })
+  })
+
+  describe("estimateMemory", () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it("should estimate from the cached file", async () => {
+      const { resolveModelFile } = await import("node-llama-cpp")
+      const estimate = await LLMEngine.estimateMemory("phi-4", { contextSize: 2048, gpuLayers: 4 })
+
+      expect(estimate).toMatchObject({
+        gpuLayers: 4,
+        contextSize: 2048,
+        model: { ramBytes: 6e9, vramBytes: 4e9 },
+        fits: true
+      })
+      expect(vi.mocked(resolveModelFile).mock.calls[0]?.[1]).toMatchObject({ download: false })
+      expect(mockReadModelInsights.mock.calls[0]?.[1]).toBe("/mock/path/to/model.gguf")
+      // A read-only estimate never quarantines the cached file
+      expect(mockVerifyModelFile).not.toHaveBeenCalled()
+    })
+
+    it("should read the header from HuggingFace when not downloaded", async () => {
+      const { resolveModelFile } = await import("node-llama-cpp")
+      vi.mocked(resolveModelFile).mockRejectedValueOnce(new Error("download is disabled"))
+      const estimate = await LLMEngine.estimateMemory("qwen", { quantization: "Q8_0" })
+
+      expect(mockReadModelInsights.mock.calls[0]?.[1]).toBe(
+        "hf:unsloth/Qwen3-8B-GGUF/Qwen3-8B-Q8_0.gguf"
+      )
+      // Defaults: all layers and the trained context
+      expect(estimate).toMatchObject({ gpuLayers: 10, contextSize: 8192, fits: false })
+    })
+  })
+
+  describe("getModelForUseCase", () => {
+    it("should return gemma-3n-e2b for fast", () => {
+      expect(LLMEngine.getModelForUseCase("fast")).toBe("gemma-3n-e2b")
+    })
+
+    it("should return gemma-3n-e4b for balanced", () => {
+      expect(LLMEngine.getModelForUseCase("balanced")).toBe("gemma-3n-e4b")
+    })
+
+    it("should return qwen-2.5-coder-7b for code", () => {
+      expect(LLMEngine.getModelForUseCase("code")).toBe("qwen-2.5-coder-7b")
     })
 
     it("should return deepseek-r1-14b for reasoning", () => {
@@ -375,5 +2587,10 @@ describe("Static methods", () => {
     it("should return gemma-3-27b for quality", () => {
       expect(LLMEngine.getModelForUseCase("quality")).toBe("gemma-3-27b")
     })
+
+    it("should return bge-m3 for embedding", () => {
+      expect(LLMEngine.getModelForUseCase("embedding")).toBe("bge-m3")
+      expect(LLMEngine.getModelForUseCase("reranking")).toBe("bge-reranker-v2-m3")
+    })
   })
 })
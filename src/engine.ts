@@ -9,21 +9,219 @@ import {
   LlamaModel,
   LlamaContext,
   LlamaChatSession,
-  resolveModelFile,
+  resolveChatWrapper,
+  type ChatHistoryItem,
+  type ChatSessionModelFunctions,
+  type ChatWrapper,
   type Llama,
-  type ModelFileAccessTokens
+  type LlamaContextOptions,
+  type LlamaEmbeddingContext,
+  type LlamaRankingContext,
+  type LlamaGrammar,
+  type Token
 } from "node-llama-cpp"
 
+import { createAbortScope } from "./abort.js"
+import { isRemote, resolveCachedModelFile } from "./cache.js"
+import { Conversation, toChatMessage } from "./conversation.js"
+import { chunkTokens, normalizeVector, poolVectors } from "./embeddings.js"
 import {
-  MODELS,
-  MODEL_ALIASES,
+  ContextOverflowError,
+  ConversationLimitError,
+  GenerationAbortedError,
+  ModelNotCachedError,
+  SchemaValidationError
+} from "./errors.js"
+import { inspectGguf, toModelEntry, type GgufInfo } from "./gguf.js"
+import { verifyModelFile, type ModelVerification } from "./integrity.js"
+import { recordLogprobs } from "./logprobs.js"
+import {
+  estimateMemoryUse,
+  getAvailableMemory,
+  readModelInsights,
+  resolveMemory,
+  type MemoryEstimate,
+  type MemoryOptions
+} from "./memory.js"
+import { createPrefixCache, type PrefixCache } from "./prefix-cache.js"
+import { getModelUri, modelRegistry, selectVariant } from "./registry.js"
+import { createTokenBias } from "./sampling.js"
+import { createScheduler, type ScheduleOptions, type Scheduler } from "./scheduler.js"
+import { createEventStream, gateSequence } from "./stream.js"
+import { toFunctionCallItems, toSessionFunctions } from "./tools.js"
+import {
+  RECOMMENDED_MODELS,
+  type ChatMessage,
+  type BatchItemResult,
+  type BatchOptions,
+  type ChatOptions,
+  type ContextStrategy,
+  type ContextTrimEvent,
+  type ConversationOptions,
+  type EmbedOptions,
+  type ExportSessionOptions,
+  type ImportSessionOptions,
+  type RerankOptions,
+  type RerankResult,
   type EngineOptions,
+  type FinishReason,
+  type GenerateObjectOptions,
+  type GenerateObjectResult,
   type GenerateOptions,
+  type JsonSchema,
+  type JsonSchemaToType,
   type GenerateResult,
-  type ModelId,
-  type TokenCallback
+  type ModelEntry,
+  type StreamEvent,
+  type TokenCallback,
+  type TokenLogprob,
+  type ToolCall,
+  type UseCase
 } from "./types.js"
 
+/**
+ * Callbacks and extra settings for a single prompt run
+ */
+interface PromptHandlers {
+  /** Constrain the answer to a grammar */
+  grammar?: LlamaGrammar
+  /** Functions the model may call */
+  functions?: ChatSessionModelFunctions
+  /** Called with each chunk of the answer text and, if requested, its tokens' log probabilities */
+  onToken?: (text: string, logprobs?: TokenLogprob[]) => void
+  /** Called with each chunk of reasoning text */
+  onThought?: TokenCallback
+  /** Awaited before each generated token; used for stream backpressure */
+  waitForDemand?: () => Promise<void>
+  /** A conversation's context strategy and trim callback, instead of the engine's */
+  context?: Pick<ConversationOptions, "contextStrategy" | "onContextTrim">
+  /** Called when older turns were dropped; used for stream events */
+  onContextTrim?: (event: ContextTrimEvent) => void
+}
+
+type PromptResponse = Awaited<ReturnType<LlamaChatSession["promptWithMeta"]>>
+type StopReason = PromptResponse["stopReason"]
+
+/**
+ * Map node-llama-cpp's stop reason to our public finish reason
+ */
+function toFinishReason(stopReason: StopReason): FinishReason {
+  switch (stopReason) {
+    case "maxTokens":
+      return "length"
+    case "abort":
+      return "abort"
+    case "eogToken":
+    case "stopGenerationTrigger":
+    case "customStopTrigger":
+    case "functionCalls":
+      return "stop"
+    default:
+      return "error"
+  }
+}
+
+/**
+ * Find which of the requested stop sequences node-llama-cpp matched
+ *
+ * The matched trigger is reported as text and token parts, so we compare its
+ * text against the stop sequences we passed in.
+ */
+function matchStopSequence(trigger: (string | Token)[], stop: string[]): string {
+  const text = trigger.filter((part): part is string => typeof part === "string").join("")
+  return stop.find((sequence) => sequence === text) ?? text
+}
+
+/**
+ * Convert one of our chat messages into node-llama-cpp's chat history format
+ */
+function toChatHistoryItem(message: ChatMessage): ChatHistoryItem {
+  switch (message.role) {
+    case "system":
+      return { type: "system", text: message.content }
+    case "assistant":
+      return {
+        type: "model",
+        response: [...toFunctionCallItems(message.toolCalls ?? []), message.content]
+      }
+    case "user":
+      return { type: "user", text: message.content }
+  }
+}
+
+/**
+ * Build a chat history for messages, keeping the session's own items where they match
+ *
+ * The session's items carry details our messages drop, like reasoning
+ * segments, so rendering them again reproduces the tokens that were already
+ * evaluated and their KV cache is reused.
+ */
+function reuseChatHistory(current: ChatHistoryItem[], messages: ChatMessage[]): ChatHistoryItem[] {
+  const toolCallCount = (message: ChatMessage) =>
+    message.role === "assistant" ? (message.toolCalls?.length ?? 0) : 0
+
+  let shared = 0
+  while (shared < current.length && shared < messages.length) {
+    const existing = toChatMessage(current[shared])
+    const message = messages[shared]
+    if (
+      existing.role !== message.role ||
+      existing.content !== message.content ||
+      toolCallCount(existing) !== toolCallCount(message)
+    ) {
+      break
+    }
+    shared++
+  }
+  return [...current.slice(0, shared), ...messages.slice(shared).map(toChatHistoryItem)]
+}
+
+/**
+ * Context size for embeddings and reranking when neither `contextSize` nor a smaller trained size is set
+ */
+const DEFAULT_EMBEDDING_CONTEXT_SIZE = 8192
+
+/**
+ * Tokens reserved for the reranker's template and special tokens around query and document
+ */
+const RERANK_TEMPLATE_TOKENS = 16
+
+/**
+ * Number of query/document pairs scored per ranking call
+ */
+const RERANK_BATCH_SIZE = 32
+
+/**
+ * Maximum length of a summary written by the "summarize" context strategy
+ */
+const SUMMARY_MAX_TOKENS = 256
+
+/**
+ * Instruction for condensing dropped turns
+ */
+const SUMMARY_PROMPT =
+  "Summarize the following conversation in a few sentences. " +
+  "Keep names, facts and decisions that later messages may refer to."
+
+/**
+ * Count the leading tokens two token sequences share
+ */
+function commonPrefixLength(a: readonly Token[], b: readonly Token[]): number {
+  const length = Math.min(a.length, b.length)
+  let index = 0
+  while (index < length && a[index] === b[index]) {
+    index++
+  }
+  return index
+}
+
+/**
+ * Compute a per-second rate, guarding against zero-length intervals
+ */
+function rate(count: number, seconds: number): number {
+  return seconds > 0 ? count / seconds : 0
+}
+
 /**
  * Native LLM Engine
  *
@@ -31,33 +229,98 @@ import {
  */
 export class LLMEngine {
   private readonly modelId: string
-  private readonly gpuLayers: number
-  private readonly contextSize?: number
+  private readonly modelEntry?: ModelEntry
+  private readonly gpuLayers: number | "auto"
+  private readonly contextSize?: number | "auto"
   private readonly hfToken?: string
-  private readonly enableThinking: boolean
+  private readonly cacheDir?: string
+  private readonly offline: boolean
+  private readonly enableThinking?: boolean
+  private readonly maxSequences: number
+  private readonly maxConcurrency: number
+  private readonly contextStrategy: ContextStrategy
+  private readonly onContextTrim?: (event: ContextTrimEvent) => void
+  private readonly scheduler: Scheduler
+  private readonly prefixCache: PrefixCache<LlamaChatSession> | null
+  private readonly prefixCacheEntries: number
+  private readonly poolSequences: number
+  private readonly mode: "stateless" | "stateful"
 
   private llama: Llama | null = null
   private model: LlamaModel | null = null
   private context: LlamaContext | null = null
-  private session: LlamaChatSession | null = null
+  private embeddingContext: LlamaEmbeddingContext | null = null
+  private embeddingContextSize = 0
+  private rankingContext: LlamaRankingContext | null = null
+  private chatWrapper: ChatWrapper | null = null
+  private ggufInfo: GgufInfo | null = null
+  private memoryEstimate: MemoryEstimate | null = null
+  private initializing: Promise<void> | null = null
+  private readonly sessions: LlamaChatSession[] = []
+  private readonly idleSessions: LlamaChatSession[] = []
+  private readonly conversations = new Map<Conversation, LlamaChatSession>()
 
   constructor(options: EngineOptions) {
-    // Resolve model alias if needed
-    const modelKey = options.model.toLowerCase()
-    if (modelKey in MODEL_ALIASES) {
-      this.modelId = MODEL_ALIASES[modelKey]
-    } else if (modelKey in MODELS) {
-      this.modelId = modelKey as ModelId
+    // Resolve model id or alias; anything unregistered is assumed to be a path to a .gguf file
+    const resolved = modelRegistry.resolve(options.model)
+    if (resolved) {
+      const { id, ...entry } = resolved
+      this.modelId = id
+      this.modelEntry =
+        options.quantization === undefined ? entry : selectVariant(id, entry, options.quantization)
+    } else if (options.quantization !== undefined) {
+      throw new Error(
+        `quantization only applies to registered models; "${options.model}" is a path`
+      )
     } else {
-      // Assume it's a path to a .gguf file
       this.modelId = options.model
     }
 
     this.gpuLayers = options.gpuLayers ?? -1 // -1 = all layers on GPU
     this.contextSize = options.contextSize
-    this.enableThinking = options.enableThinking ?? false
+    this.enableThinking = options.enableThinking
+    this.maxConcurrency = options.maxConcurrency ?? 1
+    this.contextStrategy = options.contextStrategy ?? "truncate-oldest"
+    this.onContextTrim = options.onContextTrim
+    this.prefixCacheEntries =
+      options.prefixCache === false ? 0 : (options.prefixCache?.maxEntries ?? this.maxConcurrency)
+    // The engine's own sessions never compete with conversations for sequences
+    this.poolSequences = Math.max(this.maxConcurrency, this.prefixCacheEntries)
+    // History only carries over between calls that land on the same session
+    if (options.mode === "stateful" && this.poolSequences > 1) {
+      throw new Error(
+        `mode "stateful" needs a single session, but maxConcurrency and prefixCache.maxEntries ` +
+          `allow ${this.poolSequences}; use mode "stateless" or conversations`
+      )
+    }
+    this.mode = options.mode ?? (this.poolSequences > 1 ? "stateless" : "stateful")
+    // Every sequence gets the full context size, so conversations are opt-in
+    this.maxSequences = options.maxSequences ?? this.poolSequences
+    if (this.maxConcurrency > this.maxSequences) {
+      throw new Error(
+        `maxConcurrency (${this.maxConcurrency}) cannot exceed maxSequences (${this.maxSequences})`
+      )
+    }
+    if (this.prefixCacheEntries > this.maxSequences) {
+      throw new Error(
+        `prefixCache.maxEntries (${this.prefixCacheEntries}) cannot exceed maxSequences (${this.maxSequences})`
+      )
+    }
+    this.prefixCache =
+      options.prefixCache === false
+        ? null
+        : createPrefixCache({
+            maxEntries: this.prefixCacheEntries,
+            maxTokens: options.prefixCache?.maxTokens
+          })
+    this.scheduler = createScheduler({
+      maxConcurrency: this.maxConcurrency,
+      maxQueueLength: options.maxQueueLength
+    })
     // Use provided token or fall back to environment variable
     this.hfToken = options.huggingFaceToken ?? process.env.HF_TOKEN
+    this.cacheDir = options.cacheDir
+    this.offline = options.offline ?? false
   }
 
   /**
@@ -71,50 +334,72 @@ export class LLMEngine {
    * Get the HuggingFace URI for a model
    */
   private getModelUri(): string {
-    if (this.modelId in MODELS) {
-      const info = MODELS[this.modelId as ModelId]
-      return `hf:${info.repo}/${info.file}`
+    // Unregistered models are already a path or URL
+    return this.modelEntry ? getModelUri(this.modelEntry) : this.modelId
+  }
+
+  /**
+   * Get the context size from the options, or the one "auto" picked
+   */
+  private getContextSize(): number | undefined {
+    if (this.memoryEstimate) {
+      return this.memoryEstimate.contextSize
     }
-    // Assume it's already a path or URL
-    return this.modelId
+    return this.contextSize === "auto" ? undefined : this.contextSize
   }
 
   /**
    * Get the thinking mode for the current model
    */
   private getThinkingMode(): "qwen" | "deepseek" | undefined {
-    if (this.modelId in MODELS) {
-      const info = MODELS[this.modelId as ModelId]
-      return (info as { thinkingMode?: "qwen" | "deepseek" }).thinkingMode
-    }
-    return undefined
+    return this.modelEntry?.thinkingMode
   }
 
   /**
-   * Prepare prompt for thinking-mode models
-   * - Qwen3: Add /no_think prefix when thinking is disabled
-   * - DeepSeek: No modification needed (always thinks)
+   * Check whether the current model can call tools
+   *
+   * Unregistered models are assumed to support it; node-llama-cpp picks the
+   * function calling syntax from the model's chat template.
    */
-  private preparePrompt(prompt: string): string {
-    const thinkingMode = this.getThinkingMode()
-
-    if (thinkingMode === "qwen" && !this.enableThinking) {
-      // Disable thinking mode for Qwen3 by adding /no_think prefix
-      return `/no_think ${prompt}`
+  private supportsTools(): boolean {
+    if (this.modelEntry) {
+      return this.modelEntry.supportsTools ?? false
     }
+    return true
+  }
 
-    return prompt
+  /**
+   * Get what the current model is for
+   *
+   * Unregistered models are assumed to generate text, but can still be used with
+   * `embed()` and `rerank()`.
+   */
+  private getModelKind(): "text" | "embedding" | "reranker" {
+    return this.modelEntry?.kind ?? "text"
   }
 
   /**
-   * Get appropriate max tokens for the model
-   * DeepSeek models need more tokens because they think first
+   * Decide whether the model may think for a single call
+   *
+   * Per-call options win over the engine option. Otherwise Qwen3 answers
+   * directly for speed, while DeepSeek R1 keeps thinking since that is how it
+   * was trained to answer. Returns undefined for models without a thinking mode.
    */
-  private getDefaultMaxTokens(): number {
+  private resolveThinking(options: Pick<GenerateOptions, "enableThinking">): boolean | undefined {
     const thinkingMode = this.getThinkingMode()
+    if (!thinkingMode) {
+      return undefined
+    }
+    return options.enableThinking ?? this.enableThinking ?? thinkingMode === "deepseek"
+  }
 
-    if (thinkingMode === "deepseek") {
-      // DeepSeek needs more tokens for thinking + response
+  /**
+   * Get appropriate max tokens for the model
+   * Thinking models need more tokens because they think first
+   */
+  private getDefaultMaxTokens(thinking: boolean | undefined): number {
+    if (thinking) {
+      // Thinking + response
       return 512
     }
 
@@ -136,10 +421,18 @@ export class LLMEngine {
    * ```
    */
   async initialize(): Promise<void> {
-    if (this.model) {
-      return // Already initialized
-    }
+    // Concurrent callers share one load
+    this.initializing ??= this.load().catch((error: unknown) => {
+      this.initializing = null
+      throw error
+    })
+    return this.initializing
+  }
 
+  /**
+   * Download (if needed) and load the model, then create the context
+   */
+  private async load(): Promise<void> {
     // Get llama instance
     this.llama = await getLlama()
 
@@ -147,33 +440,52 @@ export class LLMEngine {
     const modelUri = this.getModelUri()
     console.log(`Resolving model: ${modelUri}`)
 
-    // Build tokens object if HuggingFace token is available
-    const tokens: ModelFileAccessTokens | undefined = this.hfToken
-      ? { huggingFace: this.hfToken }
-      : undefined
-
-    const modelPath = await resolveModelFile(modelUri, { tokens })
+    const modelPath = await resolveCachedModelFile(this.modelId, modelUri, {
+      directory: this.cacheDir,
+      huggingFaceToken: this.hfToken,
+      offline: this.offline,
+      checksums: this.modelEntry
+    })
     console.log(`Loading model from: ${modelPath}`)
 
+    // Unregistered files only carry metadata in their header
+    if (!this.modelEntry) {
+      this.ggufInfo = await inspectGguf(modelPath)
+    }
+
+    // node-llama-cpp resolves "auto" itself; it knows how much of the VRAM is shared with RAM
+    const fitting = this.gpuLayers === "auto" || this.contextSize === "auto"
+    const available = fitting ? await getAvailableMemory(this.llama) : undefined
+
     this.model = await this.llama.loadModel({
       modelPath,
-      gpuLayers: this.gpuLayers
+      gpuLayers:
+        this.gpuLayers === "auto" && typeof this.contextSize === "number"
+          ? { fitContext: { contextSize: this.contextSize } }
+          : this.gpuLayers
     })
 
-    // Create context
-    const contextOptions: { model: LlamaModel; contextSize?: number } = {
-      model: this.model
+    // Embedding and reranker models get their context on first use of embed() or rerank()
+    if (this.getModelKind() !== "text") {
+      console.log("Model loaded successfully!")
+      return
     }
+
+    // Create context; each running request and every conversation use one sequence
+    const contextOptions: LlamaContextOptions = { sequences: this.maxSequences }
     if (this.contextSize) {
       contextOptions.contextSize = this.contextSize
     }
 
     this.context = await this.model.createContext(contextOptions)
 
-    // Create chat session
-    this.session = new LlamaChatSession({
-      contextSequence: this.context.getSequence()
-    })
+    if (available) {
+      this.memoryEstimate = estimateMemoryUse(this.model.fileInsights, available, {
+        contextSize: this.context.contextSize,
+        gpuLayers: this.model.gpuLayers,
+        sequences: this.maxSequences
+      })
+    }
 
     console.log("Model loaded successfully!")
   }
@@ -199,61 +511,19 @@ export class LLMEngine {
    * ```
    */
   async generate(options: GenerateOptions): Promise<GenerateResult> {
-    if (!this.session || !this.context) {
-      await this.initialize()
-    }
-
-    if (!this.session || !this.context) {
-      throw new Error("Failed to initialize engine")
-    }
-
-    const startTime = Date.now()
-    let generatedTokens = 0
-
-    // Prepare prompt for thinking-mode models
-    const prompt = this.preparePrompt(options.prompt)
-    if (options.systemPrompt) {
-      // For chat session, we'll use the system prompt in the first message
-      this.session.setChatHistory([{ type: "system", text: options.systemPrompt }])
-    }
-
-    // Generate response
-    const response = await this.session.prompt(prompt, {
-      maxTokens: options.maxTokens ?? this.getDefaultMaxTokens(),
-      temperature: options.temperature ?? 0.7,
-      topP: options.topP ?? 0.9,
-      topK: options.topK ?? 40,
-      repeatPenalty: {
-        penalty: options.repeatPenalty ?? 1.1
-      },
-      stopOnAbortSignal: true,
-      onTextChunk: () => {
-        generatedTokens++
-      }
-    })
-
-    const durationSeconds = (Date.now() - startTime) / 1000
-    const tokensPerSecond = generatedTokens / durationSeconds
-
-    return {
-      text: response,
-      tokenCount: generatedTokens,
-      promptTokenCount: 0, // Not easily available from session
-      durationSeconds,
-      tokensPerSecond,
-      finishReason: "stop",
-      model: this.modelId
-    }
+    return this.schedule(options, (session) => this.runGenerate(session, options))
   }
 
   /**
    * Generate text with streaming token-by-token output
    *
    * Same as `generate()` but calls `onToken` for each generated token,
-   * enabling real-time display of responses.
+   * enabling real-time display of responses. Reasoning is kept out of
+   * `onToken` and delivered to `onThought` instead.
    *
    * @param options - Generation options including prompt, maxTokens, temperature
-   * @param onToken - Callback invoked for each generated token
+   * @param onToken - Callback invoked for each generated answer token
+   * @param onThought - Optional callback invoked for each generated thought token
    * @returns Generation result with text, token counts, and performance metrics
    *
    * @example
@@ -266,52 +536,529 @@ export class LLMEngine {
    */
   async generateStreaming(
     options: GenerateOptions,
-    onToken: TokenCallback
+    onToken: TokenCallback,
+    onThought?: TokenCallback
   ): Promise<GenerateResult> {
-    if (!this.session || !this.context) {
+    return this.schedule(options, (session) =>
+      this.runGenerate(session, options, { onToken, onThought })
+    )
+  }
+
+  /**
+   * Generate text as an async iterable of stream events
+   *
+   * Generation starts when iteration begins and pauses while the consumer
+   * falls behind. Breaking out of the loop cancels generation. Failures are
+   * delivered as a final `error` event rather than thrown.
+   *
+   * Use `toReadable()` or `toReadableStream()` to pipe the answer text into
+   * an HTTP response.
+   *
+   * @param options - Generation options including prompt, maxTokens, signal
+   * @returns Async iterable of token, thought, usage, done and error events
+   *
+   * @example
+   * ```typescript
+   * for await (const event of engine.stream({ prompt: "Write a haiku" })) {
+   *   if (event.type === "token") process.stdout.write(event.text)
+   * }
+   * ```
+   */
+  stream(options: GenerateOptions): AsyncIterable<StreamEvent> {
+    return this.streamPrompt(options.signal, (signal, handlers) =>
+      this.schedule({ ...options, signal }, (session) =>
+        this.runGenerate(session, { ...options, signal }, handlers)
+      )
+    )
+  }
+
+  /**
+   * Wire a prompt run into an event stream
+   *
+   * Shared implementation of `stream()` and `Conversation.stream()`.
+   */
+  private streamPrompt(
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal, handlers: PromptHandlers) => Promise<GenerateResult>
+  ): AsyncIterable<StreamEvent> {
+    return createEventStream(
+      async (sink) => {
+        const result = await run(sink.signal, {
+          onToken: (text, logprobs) =>
+            sink.push(logprobs ? { type: "token", text, logprobs } : { type: "token", text }),
+          onThought: (text) => sink.push({ type: "thought", text }),
+          onContextTrim: (event) => sink.push({ type: "contextTrim", ...event }),
+          waitForDemand: () => sink.waitForDemand()
+        })
+        sink.push({
+          type: "usage",
+          promptTokenCount: result.promptTokenCount,
+          tokenCount: result.tokenCount
+        })
+        sink.push({ type: "done", result })
+      },
+      { signal }
+    )
+  }
+
+  /**
+   * Generate text for many prompts, decoding several of them in parallel
+   *
+   * Each item is generated independently with a fresh chat history; in
+   * stateful mode, the engine's history is restored after each item. Items run
+   * through the engine's queue on separate context sequences, so at most
+   * `maxConcurrency` of them decode at once; set it on the engine to
+   * parallelize batches.
+   *
+   * A failing item does not fail the batch: its error is returned in its slot.
+   *
+   * @param items - Generation options per item
+   * @param options - Parallelism and progress callback
+   * @returns One outcome per item, in input order
+   * @throws Error if `concurrency` exceeds the engine's `maxConcurrency`
+   *
+   * @example
+   * ```typescript
+   * const engine = new LLMEngine({ model: "gemma", maxConcurrency: 4 })
+   * const results = await engine.generateBatch(
+   *   reviews.map((review) => ({ prompt: `Sentiment of: ${review}`, maxTokens: 5 })),
+   *   { onProgress: ({ completed, total }) => console.log(`${completed}/${total}`) }
+   * )
+   * for (const item of results) {
+   *   console.log(item.ok ? item.result.text : item.error.message)
+   * }
+   * ```
+   */
+  async generateBatch(
+    items: readonly GenerateOptions[],
+    options: BatchOptions = {}
+  ): Promise<BatchItemResult[]> {
+    // The scheduler would quietly run the extra workers one after another
+    if (options.concurrency !== undefined && options.concurrency > this.maxConcurrency) {
+      throw new Error(
+        `concurrency (${options.concurrency}) cannot exceed maxConcurrency (${this.maxConcurrency}); ` +
+          "raise maxConcurrency on the engine"
+      )
+    }
+    const concurrency = Math.max(
+      1,
+      Math.min(options.concurrency ?? this.maxConcurrency, items.length)
+    )
+    const results = new Array<BatchItemResult>(items.length)
+    let next = 0
+    let completed = 0
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++
+        const item = items[index]
+        let outcome: BatchItemResult
+        try {
+          const result = await this.schedule(item, (session) => this.runBatchItem(session, item))
+          outcome = { ok: true, result }
+        } catch (error) {
+          outcome = { ok: false, error: error instanceof Error ? error : new Error(String(error)) }
+        }
+        results[index] = outcome
+        completed++
+        options.onProgress?.({ index, item: outcome, completed, total: items.length })
+      }
+    }
+
+    await Promise.all(Array.from({ length: concurrency }, worker))
+    return results
+  }
+
+  /**
+   * Generate a JSON value that matches a schema
+   *
+   * The schema is compiled into a llama.cpp grammar, so the model can only
+   * produce syntactically valid JSON of the requested shape. The parsed value
+   * is typed from the schema when it is declared inline or `as const`.
+   *
+   * Cancelled generations always throw `GenerationAbortedError`, since a
+   * partial object cannot be returned.
+   *
+   * @param options - Generation options plus the JSON Schema to follow
+   * @returns Generation result with the parsed `object`
+   * @throws SchemaValidationError if the output does not match the schema
+   *
+   * @example
+   * ```typescript
+   * const { object } = await engine.generateObject({
+   *   prompt: "Extract the person: Ada Lovelace, born 1815",
+   *   schema: {
+   *     type: "object",
+   *     properties: {
+   *       name: { type: "string" },
+   *       born: { type: "integer" }
+   *     }
+   *   }
+   * })
+   * object.born // number
+   * ```
+   */
+  async generateObject<const Schema extends JsonSchema>(
+    options: GenerateObjectOptions<Schema>
+  ): Promise<GenerateObjectResult<JsonSchemaToType<Schema>>> {
+    if (!this.llama) {
       await this.initialize()
     }
 
-    if (!this.session || !this.context) {
+    if (!this.llama) {
       throw new Error("Failed to initialize engine")
     }
 
-    const startTime = Date.now()
-    let generatedTokens = 0
+    const { schema, ...rest } = options
+    const generateOptions = { ...rest, throwOnAbort: true }
+    const grammar = await this.llama.createGrammarForJsonSchema<Schema>(schema)
+    const result = await this.schedule(generateOptions, (session) =>
+      this.runGenerate(session, generateOptions, { grammar })
+    )
 
-    // Prepare prompt for thinking-mode models
-    const prompt = this.preparePrompt(options.prompt)
-    if (options.systemPrompt) {
-      this.session.setChatHistory([{ type: "system", text: options.systemPrompt }])
+    try {
+      return { ...result, object: grammar.parse(result.text) }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new SchemaValidationError(
+        result.finishReason === "length"
+          ? `Output was truncated at maxTokens and is not valid JSON: ${reason}`
+          : `Output does not match the schema: ${reason}`,
+        result.text,
+        result.finishReason,
+        { cause: error }
+      )
     }
+  }
 
-    // Generate response with streaming
-    const response = await this.session.prompt(prompt, {
-      maxTokens: options.maxTokens ?? this.getDefaultMaxTokens(),
-      temperature: options.temperature ?? 0.7,
-      topP: options.topP ?? 0.9,
-      topK: options.topK ?? 40,
-      repeatPenalty: {
-        penalty: options.repeatPenalty ?? 1.1
-      },
-      onTextChunk: (chunk) => {
-        generatedTokens++
-        onToken(chunk)
+  /**
+   * Tokenize the fully rendered prompt
+   *
+   * Renders the current chat history plus the new user prompt through the
+   * model's chat template, so the tokens include the template and the system prompt.
+   */
+  private renderPromptTokens(
+    session: LlamaChatSession,
+    prompt: string,
+    functions?: ChatSessionModelFunctions
+  ): Token[] {
+    const { contextText } = session.chatWrapper.generateContextState({
+      chatHistory: [
+        ...session.getChatHistory(),
+        { type: "user", text: prompt },
+        { type: "model", response: [] }
+      ],
+      availableFunctions: functions
+    })
+    return contextText.tokenize(session.model.tokenizer)
+  }
+
+  /**
+   * Make room for the prompt and its answer according to the context strategy
+   *
+   * Whole turns are removed from the start of the history, right after the
+   * system prompt. With `"summarize"`, the model condenses them into a system
+   * message that takes their place. If the signal aborts the summary, the
+   * history is left as it was and the prompt that follows stops right away.
+   *
+   * @throws ContextOverflowError if the strategy is "error", or if the prompt is too long on its own
+   */
+  private async fitContext(
+    session: LlamaChatSession,
+    prompt: string,
+    maxTokens: number,
+    handlers: PromptHandlers,
+    signal: AbortSignal
+  ): Promise<void> {
+    const contextSize = session.context.contextSize
+    const strategy = handlers.context?.contextStrategy ?? this.contextStrategy
+    let promptTokens = this.renderPromptTokens(session, prompt, handlers.functions).length
+    if (promptTokens + maxTokens <= contextSize) {
+      return
+    }
+    if (strategy === "error") {
+      throw new ContextOverflowError(promptTokens, maxTokens, contextSize)
+    }
+
+    const history = session.getChatHistory()
+    const system = history.length > 0 && history[0].type === "system" ? history.slice(0, 1) : []
+    const turns = history.slice(system.length)
+    const dropped: ChatHistoryItem[] = []
+    const reserved = strategy === "summarize" ? SUMMARY_MAX_TOKENS : 0
+
+    while (turns.length > 0 && promptTokens + maxTokens + reserved > contextSize) {
+      // A turn runs up to the next user message
+      const next = turns.findIndex((item, index) => index > 0 && item.type === "user")
+      dropped.push(...turns.splice(0, next === -1 ? turns.length : next))
+      session.setChatHistory([...system, ...turns])
+      promptTokens = this.renderPromptTokens(session, prompt, handlers.functions).length
+    }
+
+    if (promptTokens > contextSize) {
+      session.setChatHistory(history)
+      throw new ContextOverflowError(promptTokens, maxTokens, contextSize)
+    }
+    if (dropped.length === 0) {
+      return
+    }
+
+    const event: ContextTrimEvent = { strategy, droppedMessages: dropped.map(toChatMessage) }
+    if (strategy === "summarize") {
+      try {
+        event.summary = await this.summarize(session, event.droppedMessages, signal)
+      } catch (error) {
+        session.setChatHistory(history)
+        if (signal.aborted) {
+          return
+        }
+        throw error
       }
+      session.setChatHistory([
+        ...system,
+        { type: "system", text: `Summary of the earlier conversation: ${event.summary}` },
+        ...turns
+      ])
+    }
+
+    ;(handlers.context?.onContextTrim ?? this.onContextTrim)?.(event)
+    handlers.onContextTrim?.(event)
+  }
+
+  /**
+   * Have the model condense chat messages into a short summary
+   *
+   * Runs on a blank history; the caller restores the history afterwards.
+   * A transcript too long for the context is cut from the start, keeping the
+   * messages closest to the turns that remain.
+   */
+  private async summarize(
+    session: LlamaChatSession,
+    messages: ChatMessage[],
+    signal: AbortSignal
+  ): Promise<string> {
+    const instruction = `${SUMMARY_PROMPT}\n\n`
+    let transcript = messages.map((message) => `${message.role}: ${message.content}`).join("\n\n")
+    session.setChatHistory([])
+
+    const room = Math.max(
+      0,
+      session.context.contextSize -
+        SUMMARY_MAX_TOKENS -
+        this.renderPromptTokens(session, instruction).length
+    )
+    const tokens = session.model.tokenizer(transcript)
+    if (tokens.length > room) {
+      transcript = session.model.detokenize(tokens.slice(tokens.length - room))
+    }
+
+    const { responseText } = await session.promptWithMeta(instruction + transcript, {
+      maxTokens: SUMMARY_MAX_TOKENS,
+      budgets: { thoughtTokens: 0 },
+      signal
     })
+    return responseText.trim()
+  }
 
-    const durationSeconds = (Date.now() - startTime) / 1000
-    const tokensPerSecond = generatedTokens / durationSeconds
+  /**
+   * Run a `generate()`-style prompt on one of the engine's sessions
+   *
+   * Stateless engines clear the history first; stateful ones continue it.
+   */
+  private runGenerate(
+    session: LlamaChatSession,
+    options: GenerateOptions,
+    handlers: PromptHandlers = {}
+  ): Promise<GenerateResult> {
+    if (this.mode === "stateless") {
+      session.setChatHistory([])
+    }
+    return this.runPrompt(session, options, handlers)
+  }
 
-    return {
-      text: response,
-      tokenCount: generatedTokens,
-      promptTokenCount: 0,
-      durationSeconds,
-      tokensPerSecond,
-      finishReason: "stop",
+  /**
+   * Run a batch item from an empty history
+   *
+   * In stateful mode the session's history is put back afterwards, so batch
+   * items never become part of the conversation that `generate()` continues.
+   */
+  private async runBatchItem(
+    session: LlamaChatSession,
+    options: GenerateOptions
+  ): Promise<GenerateResult> {
+    const history = this.mode === "stateful" ? session.getChatHistory() : undefined
+    session.setChatHistory([])
+    try {
+      return await this.runPrompt(session, options)
+    } finally {
+      if (history) {
+        session.setChatHistory(history)
+      }
+    }
+  }
+
+  /**
+   * Run a single prompt against the chat session
+   *
+   * Shared implementation of `generate()` and `generateStreaming()`.
+   * Stop sequences are handled by node-llama-cpp, which holds back text that
+   * could be the start of a stop sequence, so partial matches never reach `onToken`.
+   */
+  private async runPrompt(
+    session: LlamaChatSession,
+    options: GenerateOptions,
+    handlers: PromptHandlers = {}
+  ): Promise<GenerateResult> {
+    const prompt = options.prompt
+    const thinking = this.resolveThinking(options)
+    if (options.systemPrompt) {
+      // For chat session, we'll use the system prompt in the first message
+      session.setChatHistory([{ type: "system", text: options.systemPrompt }])
+    }
+
+    const maxTokens = options.maxTokens ?? this.getDefaultMaxTokens(thinking)
+    // Created first so the signal and timeout also cover summarizing the history
+    const abort = createAbortScope(options.signal, options.timeoutMs)
+    try {
+      await this.fitContext(session, prompt, maxTokens, handlers, abort.signal)
+    } catch (error) {
+      abort.dispose()
+      throw error
+    }
+
+    const stop = options.stop?.filter((sequence) => sequence.length > 0)
+    const promptTokens = this.renderPromptTokens(session, prompt, handlers.functions)
+    const cachedPromptTokens = commonPrefixLength(promptTokens, session.sequence.contextTokens)
+    const meterBefore = session.sequence.tokenMeter.getState()
+
+    const startTime = performance.now()
+    let firstTokenTime: number | undefined
+    let firstTextTime: number | undefined
+    let partialText = ""
+    let thoughtText = ""
+    const generatedTokens: Token[] = []
+    const logprobs: TokenLogprob[] = []
+    let chunkLogprobs: TokenLogprob[] | undefined
+
+    // Installed before the gate, which then wraps the recording `evaluate()`
+    const recorder =
+      options.logprobs === undefined
+        ? undefined
+        : recordLogprobs(session.sequence, options.logprobs, (token) =>
+            session.model.detokenize([token])
+          )
+    const removeGate = handlers.waitForDemand
+      ? gateSequence(session.sequence, handlers.waitForDemand)
+      : undefined
+    let response: PromptResponse
+
+    try {
+      // Generate response
+      response = await session.promptWithMeta(prompt, {
+        maxTokens,
+        temperature: options.temperature ?? 0.7,
+        topP: options.topP ?? 0.9,
+        topK: options.topK ?? 40,
+        minP: options.minP,
+        seed: options.seed,
+        repeatPenalty: {
+          penalty: options.repeatPenalty ?? 1.1,
+          presencePenalty: options.presencePenalty,
+          frequencyPenalty: options.frequencyPenalty,
+          lastTokens: options.lastTokens
+        },
+        tokenBias: createTokenBias(session.model.tokenizer, options, generatedTokens),
+        customStopTriggers: stop?.length ? stop : undefined,
+        // A grammar and functions are mutually exclusive
+        ...(handlers.grammar
+          ? { grammar: handlers.grammar }
+          : { functions: handlers.functions, onFunctionCallParamsChunk: () => recorder?.skip() }),
+        // A zero budget closes the thought segment right away
+        budgets: {
+          thoughtTokens: thinking === false ? 0 : options.thinkingBudget
+        },
+        signal: abort.signal,
+        stopOnAbortSignal: true,
+        onToken: (tokens) => {
+          generatedTokens.push(...tokens)
+          // Answer tokens; node-llama-cpp passes their text to onTextChunk next
+          if (recorder) {
+            chunkLogprobs = recorder.take(tokens)
+            logprobs.push(...chunkLogprobs)
+          }
+        },
+        onResponseChunk: (chunk) => {
+          firstTokenTime ??= performance.now()
+          if (chunk.type === "segment") {
+            recorder?.skip()
+          }
+          if (chunk.type === "segment" && chunk.segmentType === "thought") {
+            thoughtText += chunk.text
+            handlers.onThought?.(chunk.text)
+          }
+        },
+        onTextChunk: (chunk) => {
+          firstTextTime ??= performance.now()
+          partialText += chunk
+          handlers.onToken?.(chunk, chunkLogprobs)
+          chunkLogprobs = undefined
+        }
+      })
+    } catch (error) {
+      // node-llama-cpp throws when aborted before the response started;
+      // the chat history is left untouched in that case
+      if (!abort.signal.aborted) {
+        throw error
+      }
+      response = {
+        response: [partialText],
+        responseText: partialText,
+        stopReason: "abort",
+        remainingGenerationAfterStop: undefined
+      }
+    } finally {
+      removeGate?.()
+      recorder?.remove()
+      abort.dispose()
+    }
+
+    if (response.stopReason === "abort" && options.throwOnAbort) {
+      throw new GenerationAbortedError(abort.reason ?? "signal", response.responseText)
+    }
+
+    const endTime = performance.now()
+    const usage = session.sequence.tokenMeter.diff(meterBefore)
+    const promptEvalSeconds = ((firstTokenTime ?? endTime) - startTime) / 1000
+    const decodeSeconds = (endTime - (firstTokenTime ?? endTime)) / 1000
+
+    const result: GenerateResult = {
+      text: response.responseText,
+      tokenCount: usage.usedOutputTokens,
+      promptTokenCount: promptTokens.length,
+      cachedPromptTokens,
+      durationSeconds: (endTime - startTime) / 1000,
+      promptEvalSeconds,
+      timeToFirstTokenSeconds: ((firstTextTime ?? endTime) - startTime) / 1000,
+      promptTokensPerSecond: rate(usage.usedInputTokens, promptEvalSeconds),
+      // The first token is produced by prompt evaluation, not by decoding
+      tokensPerSecond: rate(Math.max(0, usage.usedOutputTokens - 1), decodeSeconds),
+      finishReason: toFinishReason(response.stopReason),
+      queueWaitSeconds: 0,
       model: this.modelId
     }
+
+    if (thoughtText) {
+      result.thinking = thoughtText
+    }
+
+    if (recorder) {
+      result.logprobs = logprobs
+    }
+
+    if (response.stopReason === "customStopTrigger") {
+      result.stopSequence = matchStopSequence(response.customStopTrigger, stop ?? [])
+    }
+
+    return result
   }
 
   /**
@@ -320,9 +1067,14 @@ export class LLMEngine {
    * Supports multi-turn conversations with system, user, and assistant messages.
    * Automatically manages chat history within the session.
    *
+   * When `tools` are given, the model may call them before answering. The
+   * engine runs the handlers, feeds their results back to the model and
+   * returns the final answer together with `toolCalls`.
+   *
    * @param messages - Array of chat messages with role and content
-   * @param options - Optional generation options (maxTokens, temperature, etc.)
+   * @param options - Optional generation options (maxTokens, temperature, tools, etc.)
    * @returns Generation result with assistant's response
+   * @throws Error if tools are given for a curated model without tool support
    *
    * @example
    * ```typescript
@@ -332,58 +1084,725 @@ export class LLMEngine {
    * ])
    * console.log(result.text) // "4"
    * ```
+   *
+   * @example
+   * ```typescript
+   * const result = await engine.chat(
+   *   [{ role: "user", content: "What's the weather in Berlin?" }],
+   *   {
+   *     tools: [
+   *       defineTool({
+   *         name: "getWeather",
+   *         parameters: { type: "object", properties: { city: { type: "string" } } },
+   *         handler: ({ city }) => ({ city, temperature: 21 })
+   *       })
+   *     ]
+   *   }
+   * )
+   * console.log(result.toolCalls) // [{ name: "getWeather", arguments: { city: "Berlin" }, ... }]
+   * ```
+   */
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<GenerateResult> {
+    const systemPrompt =
+      messages.length > 0 && messages[0].role === "system" ? messages[0].content : undefined
+    return this.schedule({ ...options, systemPrompt }, (session) => {
+      // Generate response for last user message
+      const lastMessage = messages.at(-1)
+      if (lastMessage?.role !== "user") {
+        throw new Error("Last message must be from user")
+      }
+
+      // Set chat history (all but last user message)
+      const earlier = messages.slice(0, -1)
+      session.setChatHistory(
+        this.mode === "stateful"
+          ? reuseChatHistory(session.getChatHistory(), earlier)
+          : earlier.map(toChatHistoryItem)
+      )
+
+      return this.runChatTurn(session, lastMessage.content, options)
+    })
+  }
+
+  /**
+   * Answer a user message on top of the session's current history
+   *
+   * Shared implementation of `chat()` and conversations. With tools, the
+   * handlers are run and their calls are reported as `toolCalls`.
+   */
+  private async runChatTurn(
+    session: LlamaChatSession,
+    prompt: string,
+    options: ChatOptions,
+    handlers: PromptHandlers = {}
+  ): Promise<GenerateResult> {
+    const { tools, ...generateOptions } = options
+    if (!tools?.length) {
+      return this.runPrompt(session, { prompt, ...generateOptions }, handlers)
+    }
+
+    if (!this.supportsTools()) {
+      throw new Error(`Model "${this.modelId}" does not support tool calling`)
+    }
+
+    const toolCalls: ToolCall[] = []
+    const result = await this.runPrompt(
+      session,
+      { prompt, ...generateOptions },
+      { ...handlers, functions: toSessionFunctions(tools, toolCalls) }
+    )
+    return { ...result, toolCalls }
+  }
+
+  /**
+   * Create an independent conversation on the loaded model
+   *
+   * Each conversation gets its own context sequence and history, so several
+   * users can chat through one engine in parallel without seeing each other's
+   * messages. The model weights are shared. Conversations get the sequences
+   * `generate()` and `chat()` do not reserve: `maxSequences` minus the larger of
+   * `maxConcurrency` and `prefixCache.maxEntries`. By default there are none,
+   * so raise `maxSequences` to make room. Dispose conversations you no longer
+   * need.
+   *
+   * @param options - System prompt and context strategy for the conversation
+   * @returns A new conversation
+   * @throws ConversationLimitError if all sequences for conversations are in use
+   *
+   * @example
+   * ```typescript
+   * const engine = new LLMEngine({ model: "gemma", maxSequences: 4 })
+   * const alice = await engine.createConversation({ systemPrompt: "You are a tutor." })
+   * const bob = await engine.createConversation()
+   *
+   * const [a, b] = await Promise.all([alice.send("Hi, I'm Alice"), bob.send("Hi, I'm Bob")])
+   * ```
+   */
+  async createConversation(options: ConversationOptions = {}): Promise<Conversation> {
+    const context = await this.getContext()
+    const limit = this.maxSequences - this.poolSequences
+    if (this.conversations.size >= limit) {
+      throw new ConversationLimitError(limit)
+    }
+    const session = this.createSession(context)
+    // One turn at a time, so overlapping calls cannot interleave on the history
+    const turns = createScheduler({ maxConcurrency: 1 })
+    const conversation: Conversation = new Conversation({
+      session,
+      backend: {
+        send: (session, message, sendOptions) =>
+          turns.run(
+            () => this.runChatTurn(session, message, sendOptions, { context: options }),
+            { signal: sendOptions.signal },
+            this.queuedAbortResult(sendOptions)
+          ),
+        stream: (session, message, streamOptions) =>
+          this.streamPrompt(streamOptions.signal, (signal, handlers) =>
+            turns.run(
+              () =>
+                this.runChatTurn(
+                  session,
+                  message,
+                  { ...streamOptions, signal },
+                  { ...handlers, context: options }
+                ),
+              { signal },
+              this.queuedAbortResult(streamOptions)
+            )
+          )
+      },
+      systemPrompt: options.systemPrompt,
+      onDispose: () => this.conversations.delete(conversation)
+    })
+    this.conversations.set(conversation, session)
+    return conversation
+  }
+
+  /**
+   * Export a conversation's history so it can be restored after a restart
+   *
+   * The history uses the plain `{ role, content }` message format and can be
+   * stored as JSON. With `stateFile`, the evaluated context state is saved as
+   * well, so `importSession()` does not have to evaluate the history again.
+   *
+   * @param conversation - A conversation created by this engine
+   * @param options - Optional file to save the context state to
+   * @returns The conversation's messages, starting with the system prompt if one was given
+   * @throws Error if the conversation was disposed or belongs to another engine
+   *
+   * @example
+   * ```typescript
+   * const messages = await engine.exportSession(conversation, { stateFile: "./alice.state" })
+   * await writeFile("./alice.json", JSON.stringify(messages))
+   * ```
    */
-  async chat(
-    messages: { role: "system" | "user" | "assistant"; content: string }[],
-    options?: Omit<GenerateOptions, "prompt" | "systemPrompt">
+  async exportSession(
+    conversation: Conversation,
+    options: ExportSessionOptions = {}
+  ): Promise<ChatMessage[]> {
+    const session = this.getConversationSession(conversation)
+    if (options.stateFile) {
+      await session.sequence.saveStateToFile(options.stateFile)
+    }
+    return conversation.history
+  }
+
+  /**
+   * Restore a conversation exported with `exportSession()`
+   *
+   * A leading system message becomes the conversation's system prompt. Pass
+   * the `stateFile` saved on export to skip evaluating the history again.
+   * State files are only valid for the model that wrote them; loading one
+   * from a different model can crash the process, so `acceptRisk: true` is
+   * required with it. Exported messages carry no reasoning, so for thinking
+   * models the history is evaluated again from the first answer that had some.
+   *
+   * @param messages - Messages from `exportSession()`
+   * @param options - Context strategy and the state file to load
+   * @returns A new conversation that continues where the exported one stopped
+   * @throws ConversationLimitError if all sequences for conversations are in use
+   * @throws Error if `stateFile` is given without `acceptRisk: true`
+   *
+   * @example
+   * ```typescript
+   * const messages = JSON.parse(await readFile("./alice.json", "utf8")) as ChatMessage[]
+   * const conversation = await engine.importSession(messages, {
+   *   stateFile: "./alice.state",
+   *   acceptRisk: true
+   * })
+   * await conversation.send("Where were we?")
+   * ```
+   */
+  async importSession(
+    messages: ChatMessage[],
+    options: ImportSessionOptions = {}
+  ): Promise<Conversation> {
+    const { stateFile, acceptRisk, ...conversationOptions } = options
+    if (stateFile && acceptRisk !== true) {
+      throw new Error(
+        "Loading a state file saved by another model can crash the process; " +
+          "pass acceptRisk: true to confirm it was saved with this one"
+      )
+    }
+    const systemPrompt =
+      messages.length > 0 && messages[0].role === "system" ? messages[0].content : undefined
+
+    const conversation = await this.createConversation({ ...conversationOptions, systemPrompt })
+    const session = this.getConversationSession(conversation)
+    try {
+      if (stateFile) {
+        await session.sequence.loadStateFromFile(stateFile, { acceptRisk: true })
+      }
+      session.setChatHistory(messages.map(toChatHistoryItem))
+    } catch (error) {
+      conversation.dispose()
+      throw error
+    }
+    return conversation
+  }
+
+  /**
+   * Get the session of one of this engine's open conversations
+   */
+  private getConversationSession(conversation: Conversation): LlamaChatSession {
+    const session = this.conversations.get(conversation)
+    if (!session) {
+      throw new Error("Conversation was disposed or belongs to another engine")
+    }
+    return session
+  }
+
+  /**
+   * Run a request on one of the engine's own sessions once the scheduler allows it
+   *
+   * Used by `generate()`, `chat()` and friends; conversations have their own sessions.
+   * Adds the queue wait and, for requests with a system prompt, the prefix cache outcome.
+   */
+  private async schedule(
+    options: ScheduleOptions & { systemPrompt?: string; throwOnAbort?: boolean },
+    run: (session: LlamaChatSession) => Promise<GenerateResult>
   ): Promise<GenerateResult> {
-    if (!this.session || !this.context) {
-      await this.initialize()
+    return this.withSession(
+      options,
+      async (session, queueWaitSeconds, prefixCacheHit) => {
+        const result = await run(session)
+        return prefixCacheHit === undefined
+          ? { ...result, queueWaitSeconds }
+          : { ...result, queueWaitSeconds, prefixCacheHit }
+      },
+      this.queuedAbortResult(options)
+    )
+  }
+
+  /**
+   * Settle a request aborted while queued with an empty result, unless it should throw
+   */
+  private queuedAbortResult(options: {
+    throwOnAbort?: boolean
+  }): ((queueWaitSeconds: number) => GenerateResult) | undefined {
+    if (options.throwOnAbort) {
+      return undefined
     }
+    return (queueWaitSeconds) => ({
+      text: "",
+      tokenCount: 0,
+      promptTokenCount: 0,
+      cachedPromptTokens: 0,
+      durationSeconds: 0,
+      queueWaitSeconds,
+      promptEvalSeconds: 0,
+      timeToFirstTokenSeconds: 0,
+      promptTokensPerSecond: 0,
+      tokensPerSecond: 0,
+      finishReason: "abort",
+      model: this.modelId
+    })
+  }
 
-    if (!this.session || !this.context) {
-      throw new Error("Failed to initialize engine")
+  /**
+   * Borrow one of the engine's own sessions once the scheduler allows it
+   *
+   * Sessions are created on first use, one per concurrently running request,
+   * and reused afterwards. With the prefix cache, a request goes to the
+   * session that last evaluated its system prompt, and the pool may grow to
+   * `prefixCache.maxEntries` sessions to keep more system prompts evaluated.
+   */
+  private async withSession<T>(
+    options: ScheduleOptions & { systemPrompt?: string },
+    run: (
+      session: LlamaChatSession,
+      queueWaitSeconds: number,
+      prefixCacheHit: boolean | undefined
+    ) => Promise<T>,
+    onAbort?: (queueWaitSeconds: number) => T
+  ): Promise<T> {
+    const context = await this.getContext()
+    const prefix = this.prefixCache ? options.systemPrompt : undefined
+
+    return this.scheduler.run(
+      async (queueWaitSeconds) => {
+        const { session, hit } = this.acquireSession(context, prefix)
+
+        try {
+          const result = await run(
+            session,
+            queueWaitSeconds,
+            prefix === undefined ? undefined : hit
+          )
+          if (prefix === undefined) {
+            this.prefixCache?.forget(session)
+          } else if (!hit) {
+            this.prefixCache?.record(session, prefix, this.countSystemPromptTokens(session, prefix))
+          }
+          return result
+        } catch (error) {
+          this.prefixCache?.forget(session)
+          throw error
+        } finally {
+          // Sessions of a disposed engine are not reused
+          if (this.sessions.includes(session)) {
+            this.idleSessions.push(session)
+          }
+        }
+      },
+      options,
+      onAbort
+    )
+  }
+
+  /**
+   * Take an idle session for a request, creating one if needed
+   */
+  private acquireSession(
+    context: LlamaContext,
+    prefix: string | undefined
+  ): { session: LlamaChatSession; hit: boolean } {
+    const { item, hit } = this.prefixCache
+      ? this.prefixCache.pick(this.idleSessions, prefix)
+      : { item: this.idleSessions.at(-1), hit: false }
+
+    // Keep sessions that hold other prefixes while there is room for more
+    const grow =
+      item === undefined ||
+      (!hit &&
+        this.prefixCache?.has(item) === true &&
+        this.sessions.length < this.prefixCacheEntries &&
+        context.sequencesLeft > 0)
+
+    if (grow) {
+      const session = this.createSession(context)
+      this.sessions.push(session)
+      return { session, hit: false }
     }
 
-    // Convert messages to chat history format
-    const chatHistory = messages.map((msg) => {
-      if (msg.role === "system") {
-        return { type: "system" as const, text: msg.content }
-      } else if (msg.role === "assistant") {
-        return { type: "model" as const, response: [msg.content] }
-      } else {
-        return { type: "user" as const, text: msg.content }
+    this.idleSessions.splice(this.idleSessions.indexOf(item), 1)
+    return { session: item, hit }
+  }
+
+  /**
+   * Count the tokens of a system prompt rendered on its own
+   */
+  private countSystemPromptTokens(session: LlamaChatSession, systemPrompt: string): number {
+    const { contextText } = session.chatWrapper.generateContextState({
+      chatHistory: [{ type: "system", text: systemPrompt }]
+    })
+    return contextText.tokenize(session.model.tokenizer).length
+  }
+
+  /**
+   * Evaluate a system prompt ahead of time
+   *
+   * Later requests with the same system prompt skip evaluating it, as long as
+   * it stays in the prefix cache. Does nothing if it is already evaluated.
+   *
+   * @param systemPrompt - The system prompt to evaluate
+   * @throws Error if the prefix cache is disabled
+   *
+   * @example
+   * ```typescript
+   * await engine.preloadPrefix(LONG_SYSTEM_PROMPT)
+   * const result = await engine.generate({ prompt: "Hi", systemPrompt: LONG_SYSTEM_PROMPT })
+   * console.log(result.prefixCacheHit) // true
+   * ```
+   */
+  async preloadPrefix(systemPrompt: string): Promise<void> {
+    if (!this.prefixCache) {
+      throw new Error("preloadPrefix() requires the prefix cache; remove prefixCache: false")
+    }
+
+    await this.withSession({ systemPrompt }, async (session, _queueWaitSeconds, hit) => {
+      if (!hit) {
+        session.setChatHistory([{ type: "system", text: systemPrompt }])
+        await session.preloadPrompt("")
       }
     })
+  }
+
+  /**
+   * Get the model context, initializing the engine if needed
+   */
+  private async getContext(): Promise<LlamaContext> {
+    const kind = this.getModelKind()
+    if (kind !== "text") {
+      throw new Error(
+        `Model "${this.modelId}" is ${kind === "embedding" ? "an embedding" : "a reranker"} model; ` +
+          `use ${kind === "embedding" ? "embed()" : "rerank()"} instead`
+      )
+    }
 
-    // Set chat history (all but last user message)
-    const lastMessage = chatHistory.pop()
-    if (chatHistory.length > 0) {
-      this.session.setChatHistory(chatHistory)
+    if (!this.context) {
+      await this.initialize()
     }
 
-    // Generate response for last user message
-    if (lastMessage?.type !== "user") {
-      throw new Error("Last message must be from user")
+    if (!this.context) {
+      throw new Error("Failed to initialize engine")
     }
 
-    return this.generate({
-      prompt: lastMessage.text,
-      ...options
+    return this.context
+  }
+
+  /**
+   * Create a chat session on a free context sequence
+   *
+   * Callers keep within their share of sequences: the pool within
+   * `poolSequences`, conversations within the rest.
+   */
+  private createSession(context: LlamaContext): LlamaChatSession {
+    return new LlamaChatSession({ contextSequence: context.getSequence() })
+  }
+
+  /**
+   * Compute embedding vectors
+   *
+   * Uses a dedicated embedding context on the loaded model. Curated embedding
+   * models (`kind: "embedding"`) give the best results, but any model works.
+   * Texts longer than the embedding context are split into chunks whose
+   * vectors are combined according to `pooling`. Empty texts get a zero vector.
+   *
+   * @param input - A text or an array of texts
+   * @param options - Normalization and pooling of long texts
+   * @returns One vector per text, in input order
+   *
+   * @example
+   * ```typescript
+   * const engine = new LLMEngine({ model: "bge-m3" })
+   * const [query, doc] = await engine.embed(["What is GGUF?", "GGUF is a model file format"])
+   * const similarity = query.reduce((sum, value, i) => sum + value * (doc[i] ?? 0), 0)
+   * ```
+   */
+  async embed(input: string, options?: EmbedOptions): Promise<Float32Array>
+  async embed(input: readonly string[], options?: EmbedOptions): Promise<Float32Array[]>
+  async embed(
+    input: string | readonly string[],
+    options: EmbedOptions = {}
+  ): Promise<Float32Array | Float32Array[]> {
+    const texts = typeof input === "string" ? [input] : input
+    const vectors: Float32Array[] = []
+    for (const text of texts) {
+      vectors.push(await this.embedText(text, options))
+    }
+    return typeof input === "string" ? vectors[0] : vectors
+  }
+
+  /**
+   * Embed a single text, chunking it if it does not fit the embedding context
+   */
+  private async embedText(text: string, options: EmbedOptions): Promise<Float32Array> {
+    const context = await this.getEmbeddingContext()
+    const pooling = options.pooling ?? "mean"
+
+    const tokens = context.model.tokenize(text)
+    if (tokens.length === 0) {
+      // Same length as any other vector, so empty texts cannot break a similarity search
+      return new Float32Array(context.model.embeddingVectorSize)
+    }
+
+    // Leave room for the beginning and end tokens added by node-llama-cpp
+    const chunks = chunkTokens(tokens, this.embeddingContextSize - 2)
+
+    const chunkVectors: (readonly number[])[] = []
+    for (const chunk of pooling === "first" ? chunks.slice(0, 1) : chunks) {
+      const { vector } = await context.getEmbeddingFor(chunk)
+      chunkVectors.push(vector)
+    }
+
+    const vector = poolVectors(chunkVectors, pooling)
+    return options.normalize === false ? vector : normalizeVector(vector)
+  }
+
+  /**
+   * Get the embedding context, creating it on first use
+   */
+  private async getEmbeddingContext(): Promise<LlamaEmbeddingContext> {
+    const model = await this.getModel()
+
+    if (!this.embeddingContext) {
+      this.embeddingContextSize =
+        this.getContextSize() ?? Math.min(model.trainContextSize, DEFAULT_EMBEDDING_CONTEXT_SIZE)
+      this.embeddingContext = await model.createEmbeddingContext({
+        contextSize: this.embeddingContextSize
+      })
+    }
+
+    return this.embeddingContext
+  }
+
+  /**
+   * Rank documents by relevance to a query
+   *
+   * Uses a cross-encoder when the model supports ranking (e.g. `bge-reranker-v2-m3`),
+   * giving scores between 0 and 1. Other models fall back to the cosine
+   * similarity of embeddings, giving scores between -1 and 1.
+   *
+   * Documents that do not fit the context next to the query are split into
+   * chunks and scored by their best chunk. Large batches are scored in parts.
+   *
+   * @param query - What to look for
+   * @param documents - Candidate documents
+   * @param options - How many results to return
+   * @returns Results sorted by score, highest first, with the index of each document
+   *
+   * @example
+   * ```typescript
+   * const engine = new LLMEngine({ model: "bge-reranker-v2-m3" })
+   * const [best] = await engine.rerank("What is GGUF?", candidates, { topN: 3 })
+   * console.log(candidates[best.index], best.score)
+   * ```
+   */
+  async rerank(
+    query: string,
+    documents: readonly string[],
+    options: RerankOptions = {}
+  ): Promise<RerankResult[]> {
+    const model = await this.getModel()
+    const scores = model.fileInsights.supportsRanking
+      ? await this.rankDocuments(query, documents)
+      : await this.scoreBySimilarity(query, documents)
+
+    const results = documents
+      .map((document, index) => ({ index, score: scores[index] ?? 0, document }))
+      .sort((a, b) => b.score - a.score)
+    return options.topN === undefined ? results : results.slice(0, options.topN)
+  }
+
+  /**
+   * Score documents with the model's ranking head, one chunk batch at a time
+   */
+  private async rankDocuments(query: string, documents: readonly string[]): Promise<number[]> {
+    const context = await this.getRankingContext()
+    const budget = Math.max(
+      1,
+      this.embeddingContextSize - context.model.tokenize(query).length - RERANK_TEMPLATE_TOKENS
+    )
+
+    const pairs = documents.flatMap((document, index) =>
+      chunkTokens(context.model.tokenize(document), budget).map((chunk) => ({ index, chunk }))
+    )
+
+    const scores = new Array<number>(documents.length).fill(0)
+    for (let start = 0; start < pairs.length; start += RERANK_BATCH_SIZE) {
+      const batch = pairs.slice(start, start + RERANK_BATCH_SIZE)
+      const batchScores = await context.rankAll(
+        query,
+        batch.map(({ chunk }) => chunk)
+      )
+      batch.forEach(({ index }, i) => {
+        scores[index] = Math.max(scores[index] ?? 0, batchScores[i] ?? 0)
+      })
+    }
+    return scores
+  }
+
+  /**
+   * Score documents by cosine similarity of their embeddings to the query
+   */
+  private async scoreBySimilarity(query: string, documents: readonly string[]): Promise<number[]> {
+    const queryVector = await this.embedText(query, {})
+    const scores: number[] = []
+    for (const document of documents) {
+      const vector = await this.embedText(document, {})
+      // Both vectors are normalized, so the dot product is the cosine similarity
+      scores.push(vector.reduce((sum, value, i) => sum + value * (queryVector[i] ?? 0), 0))
+    }
+    return scores
+  }
+
+  /**
+   * Get the ranking context, creating it on first use
+   */
+  private async getRankingContext(): Promise<LlamaRankingContext> {
+    const model = await this.getModel()
+
+    if (!this.rankingContext) {
+      this.embeddingContextSize =
+        this.getContextSize() ?? Math.min(model.trainContextSize, DEFAULT_EMBEDDING_CONTEXT_SIZE)
+      this.rankingContext = await model.createRankingContext({
+        contextSize: this.embeddingContextSize
+      })
+    }
+
+    return this.rankingContext
+  }
+
+  /**
+   * Split text into the model's tokens
+   *
+   * No chat template is applied; use `countChatTokens()` for prompts.
+   *
+   * @param text - Text to tokenize
+   * @returns Token ids
+   */
+  async tokenize(text: string): Promise<number[]> {
+    return (await this.getModel()).tokenize(text)
+  }
+
+  /**
+   * Turn token ids back into text
+   *
+   * @param tokens - Token ids, e.g. from `tokenize()`
+   * @returns The decoded text
+   */
+  async detokenize(tokens: readonly number[]): Promise<string> {
+    return (await this.getModel()).detokenize(tokens as readonly Token[])
+  }
+
+  /**
+   * Count the tokens of a text without any chat template
+   *
+   * @param text - Text to count
+   * @returns Number of tokens
+   */
+  async countTokens(text: string): Promise<number> {
+    return (await this.tokenize(text)).length
+  }
+
+  /**
+   * Count the tokens of a chat as the model will see it
+   *
+   * Renders the messages through the model's chat template, including the
+   * tokens that open the assistant's answer, so the count matches what
+   * `chat()` evaluates before generating.
+   *
+   * @param messages - Chat messages with role and content
+   * @returns Number of prompt tokens
+   */
+  async countChatTokens(messages: ChatMessage[]): Promise<number> {
+    const model = await this.getModel()
+    this.chatWrapper ??= resolveChatWrapper(model)
+
+    const { contextText } = this.chatWrapper.generateContextState({
+      chatHistory: [...messages.map(toChatHistoryItem), { type: "model", response: [] }]
     })
+    return contextText.tokenize(model.tokenizer).length
+  }
+
+  /**
+   * Check whether a prompt and its answer fit in the context
+   *
+   * A string is counted like a `generate()` prompt, messages like a `chat()`
+   * call. Room is reserved for `maxTokens`, which defaults to the same value
+   * `generate()` uses.
+   *
+   * @param input - Prompt or chat messages
+   * @param options - The systemPrompt, maxTokens and enableThinking the prompt will be generated with
+   * @returns True if prompt tokens plus maxTokens do not exceed the context size
+   *
+   * @example
+   * ```typescript
+   * if (!(await engine.fitsInContext(document, { maxTokens: 500 }))) {
+   *   document = document.slice(0, 10_000)
+   * }
+   * ```
+   */
+  async fitsInContext(
+    input: string | ChatMessage[],
+    options: Pick<GenerateOptions, "systemPrompt" | "maxTokens" | "enableThinking"> = {}
+  ): Promise<boolean> {
+    const context = await this.getContext()
+    let messages = input
+    if (typeof messages === "string") {
+      messages = [{ role: "user", content: messages }]
+      if (options.systemPrompt) {
+        messages.unshift({ role: "system", content: options.systemPrompt })
+      }
+    }
+
+    const promptTokens = await this.countChatTokens(messages)
+    const maxTokens = options.maxTokens ?? this.getDefaultMaxTokens(this.resolveThinking(options))
+    return promptTokens + maxTokens <= context.contextSize
+  }
+
+  /**
+   * Get the loaded model, loading it on first use
+   */
+  private async getModel(): Promise<LlamaModel> {
+    if (!this.model) {
+      await this.initialize()
+    }
+
+    if (!this.model) {
+      throw new Error("Failed to initialize engine")
+    }
+
+    return this.model
   }
 
   /**
    * Get information about the current model
    *
    * Returns model metadata including name, parameters, context length,
-   * supported languages, and benchmark scores.
+   * supported languages, and benchmark scores. For a path to an unregistered
+   * file, the metadata comes from its GGUF header (in `gguf`) once the engine
+   * is initialized.
    *
    * @returns Model information object
    */
-  getModelInfo() {
-    if (this.modelId in MODELS) {
-      return MODELS[this.modelId as ModelId]
+  getModelInfo(): ModelEntry & { gguf?: GgufInfo } {
+    if (this.modelEntry) {
+      return this.modelEntry
+    }
+    if (this.ggufInfo) {
+      return toModelEntry(this.ggufInfo)
     }
     return {
       name: this.modelId,
@@ -397,15 +1816,51 @@ export class LLMEngine {
     }
   }
 
+  /**
+   * Get the `gpuLayers` and `contextSize` node-llama-cpp picked for "auto", with their memory use
+   *
+   * @returns The loaded configuration and its estimated memory use, or null if no
+   *   option was "auto", the model is an embedding or reranker model, or the
+   *   engine is not initialized yet
+   */
+  getMemoryEstimate(): MemoryEstimate | null {
+    return this.memoryEstimate
+  }
+
+  /**
+   * Check the model file's GGUF header, size and SHA-256
+   *
+   * Reads the whole file, which takes a while for large models. The returned
+   * hash can be used as `sha256` when registering a model. Does not download.
+   *
+   * @returns Path, size and SHA-256 of the model file
+   * @throws ModelNotCachedError if the model has not been downloaded
+   * @throws CorruptModelError if a check fails; downloaded files are quarantined
+   */
+  async verifyModel(): Promise<ModelVerification> {
+    const modelUri = this.getModelUri()
+    const path = await resolveCachedModelFile(this.modelId, modelUri, {
+      directory: this.cacheDir,
+      huggingFaceToken: this.hfToken,
+      offline: true,
+      checksums: this.modelEntry
+    })
+    return verifyModelFile(path, this.modelEntry ?? {}, {
+      checkHash: true,
+      quarantine: isRemote(modelUri)
+    })
+  }
+
   /**
    * Reset the chat session
    *
    * Clears all conversation history, starting fresh for new conversations.
+   * Conversations created with `createConversation()` are not affected.
    * The model remains loaded; use `dispose()` to fully unload.
    */
   resetSession(): void {
-    if (this.session) {
-      this.session.setChatHistory([])
+    for (const session of this.sessions) {
+      session.setChatHistory([])
     }
   }
 
@@ -427,15 +1882,32 @@ export class LLMEngine {
    * ```
    */
   async dispose(): Promise<void> {
+    for (const conversation of this.conversations.keys()) {
+      conversation.dispose()
+    }
+    if (this.embeddingContext) {
+      await this.embeddingContext.dispose()
+      this.embeddingContext = null
+    }
+    if (this.rankingContext) {
+      await this.rankingContext.dispose()
+      this.rankingContext = null
+    }
     if (this.context) {
       await this.context.dispose()
       this.context = null
     }
+    this.chatWrapper = null
     if (this.model) {
       await this.model.dispose()
       this.model = null
     }
-    this.session = null
+    for (const session of this.sessions) {
+      this.prefixCache?.forget(session)
+    }
+    this.sessions.length = 0
+    this.idleSessions.length = 0
+    this.initializing = null
     this.llama = null
   }
 
@@ -444,7 +1916,7 @@ export class LLMEngine {
   // ============================================
 
   /**
-   * List all available curated models
+   * List all registered models: the curated ones and those added to `modelRegistry`
    *
    * @returns Array of model information objects
    *
@@ -454,17 +1926,17 @@ export class LLMEngine {
    * models.forEach(m => console.log(`${m.id}: ${m.name} (${m.parameters})`))
    * ```
    */
-  static listModels(): ({ id: string } & (typeof MODELS)[ModelId])[] {
-    return Object.entries(MODELS).map(([id, info]) => ({
-      id,
-      ...info
-    }))
+  static listModels(): ({ id: string } & ModelEntry)[] {
+    return modelRegistry.list()
   }
 
   /**
    * Get recommended model for a specific use case
    *
-   * @param useCase - One of: fast, balanced, quality, edge, multilingual, reasoning, code, longContext
+   * Registered models that list the use case in `recommendedFor` win over the
+   * curated pick, the most recently registered first.
+   *
+   * @param useCase - One of: fast, balanced, quality, edge, multilingual, reasoning, code, longContext, embedding, reranking
    * @returns Model ID string
    *
    * @example
@@ -473,27 +1945,65 @@ export class LLMEngine {
    * const engine = new LLMEngine({ model: modelId })
    * ```
    */
-  static getModelForUseCase(
-    useCase:
-      | "fast"
-      | "balanced"
-      | "quality"
-      | "edge"
-      | "multilingual"
-      | "reasoning"
-      | "code"
-      | "longContext"
-  ): ModelId {
-    const recommendations: Record<string, ModelId> = {
-      fast: "gemma-3n-e2b",
-      balanced: "gemma-3n-e4b",
-      quality: "gemma-3-27b",
-      edge: "gemma-3n-e2b",
-      multilingual: "qwen3-8b",
-      reasoning: "deepseek-r1-14b",
-      code: "qwen-2.5-coder-7b",
-      longContext: "gemma-3-27b"
-    }
-    return recommendations[useCase] ?? "gemma-3n-e4b"
+  static getModelForUseCase(useCase: UseCase): string {
+    const custom = modelRegistry
+      .list()
+      .reverse()
+      .find((model) => model.recommendedFor?.includes(useCase))
+    return custom?.id ?? RECOMMENDED_MODELS[useCase]
+  }
+
+  /**
+   * Estimate the RAM and VRAM a model needs, without loading it
+   *
+   * Reads the model's GGUF header, from the cache if the model was downloaded
+   * and from HuggingFace otherwise. The cached file is only read, never
+   * verified or quarantined. "auto" values are resolved by node-llama-cpp
+   * against the memory that is free right now, as `initialize()` would.
+   *
+   * @param model - Model id, alias, path or URI
+   * @param options - Configuration to estimate
+   * @returns Memory use of the model and its context, and whether it fits
+   *
+   * @example
+   * ```typescript
+   * const estimate = await LLMEngine.estimateMemory("gemma-3-27b", { contextSize: 8192, gpuLayers: "auto" })
+   * console.log(estimate.gpuLayers, estimate.total.vramBytes, estimate.fits)
+   * ```
+   */
+  static async estimateMemory(model: string, options: MemoryOptions = {}): Promise<MemoryEstimate> {
+    const resolved = modelRegistry.resolve(model)
+    let uri = model
+    if (resolved) {
+      const { id, ...entry } = resolved
+      uri = getModelUri(
+        options.quantization === undefined ? entry : selectVariant(id, entry, options.quantization)
+      )
+    }
+    const huggingFaceToken = options.huggingFaceToken ?? process.env.HF_TOKEN
+
+    let source = uri
+    if (isRemote(uri)) {
+      source = await resolveCachedModelFile(model, uri, {
+        directory: options.cacheDir,
+        huggingFaceToken,
+        offline: true,
+        verify: false
+      }).catch((error: unknown) => {
+        // Not downloaded yet; the header alone is enough
+        if (error instanceof ModelNotCachedError) {
+          return uri
+        }
+        throw error
+      })
+    }
+
+    const llama = await getLlama()
+    const insights = await readModelInsights(llama, source, huggingFaceToken)
+    return resolveMemory(insights, await getAvailableMemory(llama), {
+      contextSize: options.contextSize ?? insights.trainContextSize ?? "auto",
+      gpuLayers: options.gpuLayers ?? -1,
+      sequences: options.sequences ?? 1
+    })
   }
 }
@@ -0,0 +1,181 @@
+/**
+ * Error types thrown by native-llm
+ *
+ * All errors extend `Error` and set a distinct `name`, so they can be told apart
+ * with `instanceof` or by checking `error.name`.
+ */
+
+import type { FinishReason } from "./types.js"
+
+/**
+ * Thrown when a generation is cancelled and `throwOnAbort` is enabled
+ */
+export class GenerationAbortedError extends Error {
+  override readonly name = "GenerationAbortedError"
+
+  /** Whether the caller's signal fired or `timeoutMs` elapsed */
+  readonly reason: "signal" | "timeout"
+
+  /** Text generated before the generation was cancelled */
+  readonly partialText: string
+
+  constructor(reason: "signal" | "timeout", partialText: string) {
+    super(reason === "timeout" ? "Generation timed out" : "Generation was aborted")
+    this.reason = reason
+    this.partialText = partialText
+  }
+}
+
+/**
+ * Thrown by `generateObject()` when the output does not match the schema
+ *
+ * The grammar guarantees well-formed JSON, so this usually means generation
+ * stopped early (e.g. `maxTokens` was reached) and the JSON is incomplete.
+ */
+export class SchemaValidationError extends Error {
+  override readonly name = "SchemaValidationError"
+
+  /** The raw generated text */
+  readonly text: string
+
+  /** Why generation ended */
+  readonly finishReason: FinishReason
+
+  constructor(message: string, text: string, finishReason: FinishReason, options?: ErrorOptions) {
+    super(message, options)
+    this.text = text
+    this.finishReason = finishReason
+  }
+}
+
+/**
+ * Thrown when a request is rejected because the engine's queue is full
+ *
+ * Raise `maxQueueLength`, or retry later (e.g. answer with HTTP 503).
+ */
+export class EngineOverloadedError extends Error {
+  override readonly name = "EngineOverloadedError"
+
+  /** Number of requests that were waiting when this one was rejected */
+  readonly queueLength: number
+
+  constructor(queueLength: number) {
+    super(`Engine is overloaded: ${queueLength} requests are already queued`)
+    this.queueLength = queueLength
+  }
+}
+
+/**
+ * Thrown when a prompt and its answer do not fit in the context
+ *
+ * With `contextStrategy: "error"` this is thrown as soon as the history grows
+ * too long. Other strategies only throw when the prompt alone is too long.
+ */
+export class ContextOverflowError extends Error {
+  override readonly name = "ContextOverflowError"
+
+  /** Tokens of the rendered prompt, including the history */
+  readonly promptTokenCount: number
+
+  /** Tokens reserved for the answer */
+  readonly maxTokens: number
+
+  /** Tokens the context holds */
+  readonly contextSize: number
+
+  constructor(promptTokenCount: number, maxTokens: number, contextSize: number) {
+    super(
+      `Prompt needs ${promptTokenCount} tokens plus ${maxTokens} for the answer, ` +
+        `but the context holds ${contextSize}`
+    )
+    this.promptTokenCount = promptTokenCount
+    this.maxTokens = maxTokens
+    this.contextSize = contextSize
+  }
+}
+
+/**
+ * Thrown by `createConversation()` when every sequence for conversations is taken
+ *
+ * Dispose a conversation you no longer need, or raise `maxSequences`.
+ */
+export class ConversationLimitError extends Error {
+  override readonly name = "ConversationLimitError"
+
+  /** Number of conversations the engine can hold at once */
+  readonly limit: number
+
+  constructor(limit: number) {
+    super(
+      limit === 0
+        ? "No sequences are left for conversations; increase maxSequences"
+        : `All ${limit} conversation sequences are in use; ` +
+            "dispose a conversation or increase maxSequences"
+    )
+    this.limit = limit
+  }
+}
+
+/**
+ * Thrown when a model or alias cannot be registered or removed
+ *
+ * Raised for invalid entries, ids that are already taken, aliases pointing
+ * to unknown models and attempts to remove built-in models.
+ */
+export class ModelRegistryError extends Error {
+  override readonly name = "ModelRegistryError"
+
+  /** The model id or alias the operation was about */
+  readonly modelId: string
+
+  constructor(modelId: string, message: string) {
+    super(message)
+    this.modelId = modelId
+  }
+}
+
+/**
+ * Thrown with `offline: true` when a model file is not in the cache
+ *
+ * Download it first with `createModelCache().pull()`, or go online.
+ */
+export class ModelNotCachedError extends Error {
+  override readonly name = "ModelNotCachedError"
+
+  /** The model id, alias or URI that was requested */
+  readonly model: string
+
+  /** The cache directory that was searched */
+  readonly directory: string
+
+  constructor(model: string, directory: string, options?: ErrorOptions) {
+    super(`Model "${model}" is not cached in ${directory} and downloads are disabled`, options)
+    this.model = model
+    this.directory = directory
+  }
+}
+
+/**
+ * Thrown when a model file is truncated, damaged or not a GGUF file
+ *
+ * Downloaded files that fail verification are renamed to `quarantinedPath`,
+ * so the next `initialize()` or `pull()` downloads them again.
+ */
+export class CorruptModelError extends Error {
+  override readonly name = "CorruptModelError"
+
+  /** The model file that failed verification */
+  readonly path: string
+
+  /** Where the file was moved to, if it was quarantined */
+  readonly quarantinedPath?: string
+
+  constructor(path: string, problem: string, quarantinedPath?: string) {
+    super(
+      `Model file ${path} is corrupt: ${problem}` +
+        (quarantinedPath ? ` (moved to ${quarantinedPath})` : "")
+    )
+    this.path = path
+    this.quarantinedPath = quarantinedPath
+  }
+}
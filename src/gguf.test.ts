@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { readGgufFileInfo, type GgufFileInfo } from "node-llama-cpp"
+import { inspectGguf, toModelEntry } from "./gguf"
+
+vi.mock("node-llama-cpp", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("node-llama-cpp")>()),
+  readGgufFileInfo: vi.fn()
+}))
+
+const mockReadGgufFileInfo = vi.mocked(readGgufFileInfo)
+
+// The parts of a parsed header that inspectGguf() reads
+function fileInfo(general: object, architecture: object): GgufFileInfo {
+  return {
+    version: 3,
+    metadata: {
+      general: { architecture: "qwen3", ...general },
+      tokenizer: {
+        ggml: { model: "gpt2", tokens: ["a", "b", "c"], bos_token_id: 0, eos_token_id: 2 },
+        chat_template: "{{ messages }}"
+      }
+    },
+    architectureMetadata: architecture,
+    tensorInfo: [
+      { name: "token_embd.weight", dimensions: [4096, 151936] },
+      { name: "output_norm.weight", dimensions: [4096n] }
+    ]
+  } as unknown as GgufFileInfo
+}
+
+describe("inspectGguf", () => {
+  let directory: string
+  let path: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    directory = await mkdtemp(join(tmpdir(), "native-llm-gguf-"))
+    path = join(directory, "My-Model-Q4_K_M.gguf")
+    await writeFile(path, Buffer.alloc(64))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("should read the model's metadata from the header", async () => {
+    mockReadGgufFileInfo.mockResolvedValue(
+      fileInfo(
+        { name: "My Model", file_type: 15 },
+        { context_length: 40960, block_count: 36, embedding_length: 4096 }
+      )
+    )
+
+    expect(await inspectGguf(path)).toEqual({
+      path,
+      sizeBytes: 64,
+      version: 3,
+      name: "My Model",
+      architecture: "qwen3",
+      contextLength: 40960,
+      quantization: "Q4_K_M",
+      parameterCount: 4096 * 151936 + 4096,
+      parameters: "622.3M",
+      layers: 36,
+      embeddingLength: 4096,
+      chatTemplate: "{{ messages }}",
+      tokenizer: { model: "gpt2", vocabularySize: 3, bosTokenId: 0, eosTokenId: 2 }
+    })
+    expect(mockReadGgufFileInfo).toHaveBeenCalledWith(
+      path,
+      expect.objectContaining({ sourceType: "filesystem" })
+    )
+  })
+
+  it("should prefer the file's size label", async () => {
+    mockReadGgufFileInfo.mockResolvedValue(fileInfo({ size_label: "8B", file_type: 0 }, {}))
+
+    const info = await inspectGguf(path)
+    expect(info.parameters).toBe("8B")
+    expect(info.quantization).toBe("F32")
+  })
+
+  it("should describe the file as a model entry", async () => {
+    mockReadGgufFileInfo.mockResolvedValue(fileInfo({}, { context_length: 131072 }))
+
+    const entry = toModelEntry(await inspectGguf(path))
+    expect(entry).toMatchObject({
+      name: "My-Model-Q4_K_M",
+      file: path,
+      contextLength: 131072,
+      sizeBytes: 64,
+      description: "Custom qwen3 model"
+    })
+    expect(entry.languages).toBeUndefined()
+  })
+
+  it("should fail for files that cannot be parsed", async () => {
+    mockReadGgufFileInfo.mockRejectedValue(new Error("Invalid GGUF file"))
+    await expect(inspectGguf(path)).rejects.toThrow("Invalid GGUF file")
+  })
+})
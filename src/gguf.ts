@@ -0,0 +1,147 @@
+/**
+ * GGUF metadata
+ *
+ * Reads what a model file says about itself (architecture, context length,
+ * quantization, tokenizer) from its header, without loading the weights.
+ */
+
+import { stat } from "node:fs/promises"
+import { basename } from "node:path"
+
+import { GgufFileType, readGgufFileInfo } from "node-llama-cpp"
+
+import type { ModelEntry } from "./types.js"
+
+/**
+ * Metadata from a GGUF file's header
+ */
+export interface GgufInfo {
+  /** Path of the file */
+  path: string
+
+  /** File size in bytes */
+  sizeBytes: number
+
+  /** GGUF format version */
+  version: number
+
+  /** Model name, if the file has one */
+  name?: string
+
+  /** Model architecture, e.g. "llama" or "qwen3" */
+  architecture: string
+
+  /** Context length the model was trained with */
+  contextLength?: number
+
+  /** Quantization of most tensors, e.g. "Q4_K_M" */
+  quantization?: string
+
+  /** Number of weights */
+  parameterCount: number
+
+  /** Human-readable parameter count, e.g. "8B" */
+  parameters: string
+
+  /** Number of transformer layers */
+  layers?: number
+
+  /** Size of the hidden state */
+  embeddingLength?: number
+
+  /** Jinja chat template, if the file has one */
+  chatTemplate?: string
+
+  /** The tokenizer */
+  tokenizer: {
+    /** Tokenizer model, e.g. "gpt2" or "llama" */
+    model: string
+
+    /** Number of tokens in the vocabulary */
+    vocabularySize: number
+
+    /** Beginning-of-sequence token id */
+    bosTokenId?: number
+
+    /** End-of-sequence token id */
+    eosTokenId?: number
+  }
+}
+
+/**
+ * Format a parameter count like the built-in models do, e.g. "8B" or "3.8B"
+ */
+function formatParameters(count: number): string {
+  const [value, unit] = count >= 1e9 ? [count / 1e9, "B"] : [count / 1e6, "M"]
+  return `${value.toFixed(1).replace(/\.0$/, "")}${unit}`
+}
+
+/**
+ * Read the metadata of a GGUF file
+ *
+ * Only the header is read, so this is fast even for large models.
+ *
+ * @param path - Path of a local .gguf file
+ * @returns The file's metadata
+ * @throws Error if the file cannot be read or is not a GGUF file
+ *
+ * @example
+ * ```typescript
+ * const info = await inspectGguf("./models/my-model.gguf")
+ * console.log(info.architecture, info.parameters, info.quantization, info.contextLength)
+ * ```
+ */
+export async function inspectGguf(path: string): Promise<GgufInfo> {
+  const [fileInfo, { size }] = await Promise.all([
+    readGgufFileInfo(path, { sourceType: "filesystem", logWarnings: false }),
+    stat(path)
+  ])
+  const { general, tokenizer } = fileInfo.metadata
+  const architecture = fileInfo.architectureMetadata
+
+  // Split files list the tensors of all parts in fullTensorInfo
+  const tensors = fileInfo.fullTensorInfo ?? fileInfo.tensorInfo ?? []
+  const parameterCount = tensors.reduce(
+    (sum, tensor) => sum + tensor.dimensions.reduce<number>((n, d) => n * Number(d), 1),
+    0
+  )
+  const fileType = general.file_type === undefined ? undefined : GgufFileType[general.file_type]
+
+  return {
+    path,
+    sizeBytes: size,
+    version: fileInfo.version,
+    name: general.name,
+    architecture: general.architecture,
+    contextLength: architecture.context_length,
+    quantization: fileType?.replace(/^(MOSTLY|ALL)_/, ""),
+    parameterCount,
+    parameters: general.size_label ?? formatParameters(parameterCount),
+    layers: architecture.block_count,
+    embeddingLength: architecture.embedding_length,
+    chatTemplate: tokenizer.chat_template,
+    tokenizer: {
+      model: tokenizer.ggml.model,
+      vocabularySize: tokenizer.ggml.tokens.length,
+      bosTokenId: tokenizer.ggml.bos_token_id,
+      eosTokenId: tokenizer.ggml.eos_token_id
+    }
+  }
+}
+
+/**
+ * Describe an unregistered model file the way registry entries do
+ */
+export function toModelEntry(info: GgufInfo): ModelEntry & { gguf: GgufInfo } {
+  return {
+    name: info.name ?? basename(info.path, ".gguf"),
+    file: info.path,
+    parameters: info.parameters,
+    quantization: info.quantization,
+    sizeBytes: info.sizeBytes,
+    // Files without the key run with llama.cpp's default context
+    contextLength: info.contextLength ?? 4096,
+    description: `Custom ${info.architecture} model`,
+    gguf: info
+  }
+}
@@ -24,5 +24,66 @@
  */
 
 export { LLMEngine } from "./engine.js"
+export {
+  createModelCache,
+  type CachedModel,
+  type DownloadProgress,
+  type ModelCache,
+  type ModelCacheOptions,
+  type PullOptions
+} from "./cache.js"
+export { Conversation } from "./conversation.js"
+export {
+  ContextOverflowError,
+  ConversationLimitError,
+  CorruptModelError,
+  EngineOverloadedError,
+  GenerationAbortedError,
+  ModelNotCachedError,
+  ModelRegistryError,
+  SchemaValidationError
+} from "./errors.js"
+export { inspectGguf, type GgufInfo } from "./gguf.js"
+export type { AvailableMemory, MemoryEstimate, MemoryOptions, MemoryUsage } from "./memory.js"
+export { type ModelVerification } from "./integrity.js"
+export { modelRegistry, type ModelRegistry } from "./registry.js"
+export { toReadable, toReadableStream } from "./stream.js"
+export { defineTool } from "./tools.js"
 export { MODELS, MODEL_ALIASES, RECOMMENDED_MODELS, type ModelId, type ModelInfo } from "./types.js"
-export type { GenerateOptions, GenerateResult, EngineOptions, TokenCallback } from "./types.js"
+export type {
+  BatchItemResult,
+  BatchOptions,
+  BatchProgress,
+  GenerateOptions,
+  GenerateResult,
+  PrefixCacheOptions,
+  GenerateObjectOptions,
+  GenerateObjectResult,
+  JsonSchema,
+  JsonSchemaToType,
+  LogitBias,
+  ModelEntry,
+  ModelVariant,
+  EngineOptions,
+  FinishReason,
+  ChatMessage,
+  ChatOptions,
+  ContextStrategy,
+  ContextTrimEvent,
+  ConversationOptions,
+  EmbedOptions,
+  EmbeddingPooling,
+  ExportSessionOptions,
+  ImportSessionOptions,
+  RerankOptions,
+  RerankResult,
+  AnyTool,
+  Tool,
+  ToolArguments,
+  ToolCall,
+  StreamEvent,
+  TokenCallback,
+  TokenLogprob,
+  TopLogprob,
+  UseCase
+} from "./types.js"
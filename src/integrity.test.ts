@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { CorruptModelError } from "./errors"
+import { checkGgufHeader, hashFile, verifyModelFile } from "./integrity"
+
+describe("integrity", () => {
+  let directory: string
+  let path: string
+
+  // "GGUF", version, then a few bytes of body
+  const gguf = (version = 3) =>
+    Buffer.concat([Buffer.from("GGUF"), Buffer.from([version, 0, 0, 0]), Buffer.alloc(8)])
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "native-llm-integrity-"))
+    path = join(directory, "model.gguf")
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  describe("checkGgufHeader", () => {
+    it("should accept a GGUF header", async () => {
+      await writeFile(path, gguf())
+      expect(await checkGgufHeader(path)).toBeUndefined()
+    })
+
+    it("should report a missing magic, truncation and unknown versions", async () => {
+      await writeFile(path, Buffer.from("<!DOCTYPE html>"))
+      expect(await checkGgufHeader(path)).toBe("missing GGUF magic")
+
+      await writeFile(path, Buffer.from("GGU"))
+      expect(await checkGgufHeader(path)).toBe("file is only 3 bytes long")
+
+      await writeFile(path, gguf(9))
+      expect(await checkGgufHeader(path)).toBe("unsupported GGUF version 9")
+    })
+  })
+
+  describe("verifyModelFile", () => {
+    it("should return the size and, when asked, the hash", async () => {
+      await writeFile(path, gguf())
+      const sha256 = await hashFile(path)
+
+      expect(await verifyModelFile(path, { sizeBytes: 16 })).toEqual({ path, sizeBytes: 16 })
+      expect(
+        await verifyModelFile(path, { sha256: sha256.toUpperCase() }, { checkHash: true })
+      ).toEqual({ path, sizeBytes: 16, sha256 })
+    })
+
+    it("should reject a file of the wrong size", async () => {
+      await writeFile(path, gguf())
+      await expect(verifyModelFile(path, { sizeBytes: 4096 })).rejects.toThrow(
+        `Model file ${path} is corrupt: expected 4096 bytes, found 16`
+      )
+    })
+
+    it("should only compare the hash with checkHash", async () => {
+      await writeFile(path, gguf())
+      const expected = { sha256: "0".repeat(64) }
+
+      await expect(verifyModelFile(path, expected)).resolves.toBeDefined()
+      await expect(verifyModelFile(path, expected, { checkHash: true })).rejects.toThrow(
+        CorruptModelError
+      )
+    })
+
+    it("should quarantine corrupt files when asked", async () => {
+      await writeFile(path, Buffer.from("not a model"))
+      await expect(verifyModelFile(path, {})).rejects.toThrow("missing GGUF magic")
+      expect(await readdir(directory)).toEqual(["model.gguf"])
+
+      const error = await verifyModelFile(path, {}, { quarantine: true }).catch(
+        (error: unknown) => error
+      )
+      expect(error).toBeInstanceOf(CorruptModelError)
+      expect(error).toMatchObject({ path, quarantinedPath: `${path}.corrupt` })
+      expect((error as Error).message).toContain("(moved to")
+      expect(await readdir(directory)).toEqual(["model.gguf.corrupt"])
+    })
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Model file integrity checks
+ *
+ * A truncated download still loads until llama.cpp reads past the end of the
+ * file, so files are checked before they are handed to `loadModel()`.
+ */
+
+import { createHash } from "node:crypto"
+import { createReadStream } from "node:fs"
+import { open, rename, stat } from "node:fs/promises"
+
+import { CorruptModelError } from "./errors.js"
+
+/** "GGUF" read as a little-endian uint32 */
+const GGUF_MAGIC = 0x46554747
+
+/** GGUF format versions llama.cpp can read */
+const GGUF_VERSIONS = [1, 2, 3]
+
+/** Appended to the name of a quarantined file */
+export const QUARANTINE_SUFFIX = ".corrupt"
+
+/**
+ * Expected size and hash of a model file
+ */
+export interface ModelChecksums {
+  sizeBytes?: number
+  sha256?: string
+}
+
+/**
+ * A verified model file
+ */
+export interface ModelVerification {
+  /** Path of the verified file */
+  path: string
+
+  /** File size in bytes */
+  sizeBytes: number
+
+  /** SHA-256 of the file as hex, if it was checked */
+  sha256?: string
+}
+
+/**
+ * Read the GGUF magic and version from the start of a file
+ *
+ * @returns A description of the problem, or undefined if the header is valid
+ */
+export async function checkGgufHeader(path: string): Promise<string | undefined> {
+  const file = await open(path, "r")
+  try {
+    const header = Buffer.alloc(8)
+    const { bytesRead } = await file.read(header, 0, header.length, 0)
+    if (bytesRead < header.length) {
+      return `file is only ${bytesRead} bytes long`
+    }
+    if (header.readUInt32LE(0) !== GGUF_MAGIC) {
+      return "missing GGUF magic"
+    }
+    const version = header.readUInt32LE(4)
+    if (!GGUF_VERSIONS.includes(version)) {
+      return `unsupported GGUF version ${version}`
+    }
+    return undefined
+  } finally {
+    await file.close()
+  }
+}
+
+/**
+ * Compute the SHA-256 of a file as hex
+ */
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash("sha256")
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer)
+  }
+  return hash.digest("hex")
+}
+
+/**
+ * Check a model file before loading it
+ *
+ * Always checks the GGUF header and, if known, the size. The SHA-256 is only
+ * checked with `checkHash`, since hashing a large model takes a while.
+ *
+ * @param path - The model file
+ * @param expected - Expected size and hash
+ * @param options.checkHash - Also compare the SHA-256
+ * @param options.quarantine - Rename a corrupt file to `<path>.corrupt`
+ * @throws CorruptModelError if a check fails
+ */
+export async function verifyModelFile(
+  path: string,
+  expected: ModelChecksums,
+  options: { checkHash?: boolean; quarantine?: boolean } = {}
+): Promise<ModelVerification> {
+  const fail = async (problem: string): Promise<never> => {
+    let quarantinedPath: string | undefined
+    if (options.quarantine) {
+      quarantinedPath = path + QUARANTINE_SUFFIX
+      await rename(path, quarantinedPath)
+    }
+    throw new CorruptModelError(path, problem, quarantinedPath)
+  }
+
+  const { size } = await stat(path)
+  if (expected.sizeBytes !== undefined && size !== expected.sizeBytes) {
+    await fail(`expected ${expected.sizeBytes} bytes, found ${size}`)
+  }
+
+  const headerProblem = await checkGgufHeader(path)
+  if (headerProblem) {
+    await fail(headerProblem)
+  }
+
+  if (!options.checkHash) {
+    return { path, sizeBytes: size }
+  }
+  const sha256 = await hashFile(path)
+  if (expected.sha256 !== undefined && sha256 !== expected.sha256.toLowerCase()) {
+    await fail(`expected SHA-256 ${expected.sha256}, found ${sha256}`)
+  }
+  return { path, sizeBytes: size, sha256 }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest"
+import type { LlamaContextSequence, Token } from "node-llama-cpp"
+import { recordLogprobs } from "./logprobs"
+
+// Samples tokens 1, 2, 3 by default; by default the sampled token is always the most likely one
+class FakeSequence {
+  calls: { confidence?: boolean; probabilities?: boolean }[] = []
+
+  constructor(
+    private readonly distribution = (token: Token) =>
+      new Map([
+        [token, 0.5],
+        [100 as Token, 0.25],
+        [200 as Token, 0.25]
+      ]),
+    private readonly sampled = [1, 2, 3] as Token[]
+  ) {}
+
+  evaluate(): never {
+    throw new Error("should be replaced while recording")
+  }
+
+  async *evaluateWithMetadata(
+    _tokens: Token[],
+    metadata: { confidence?: boolean; probabilities?: boolean }
+  ): AsyncGenerator<{ token: Token; confidence: number; probabilities: Map<Token, number> }> {
+    this.calls.push(metadata)
+    for (const token of this.sampled) {
+      await Promise.resolve()
+      const probabilities = this.distribution(token)
+      yield { token, confidence: probabilities.get(token) ?? 0, probabilities }
+    }
+  }
+}
+
+function createSequence(distribution?: (token: Token) => Map<Token, number>, sampled?: Token[]) {
+  const fake = new FakeSequence(distribution, sampled)
+  return { sequence: fake as unknown as LlamaContextSequence, calls: fake.calls }
+}
+
+async function drain(sequence: LlamaContextSequence): Promise<Token[]> {
+  const tokens: Token[] = []
+  for await (const token of sequence.evaluate([0 as Token])) {
+    tokens.push(token)
+  }
+  return tokens
+}
+
+describe("recordLogprobs", () => {
+  it("should pass sampled tokens through and request probabilities", async () => {
+    const { sequence, calls } = createSequence()
+    recordLogprobs(sequence, 1, String)
+
+    expect(await drain(sequence)).toEqual([1, 2, 3])
+    expect(calls).toEqual([{ confidence: true, probabilities: true }])
+  })
+
+  it("should return the log probability and top alternatives of each token", async () => {
+    const { sequence } = createSequence()
+    const recorder = recordLogprobs(sequence, 2, (token) => `t${token}`)
+    await drain(sequence)
+
+    expect(recorder.take([1 as Token])).toEqual([
+      {
+        token: "t1",
+        id: 1,
+        logprob: Math.log(0.5),
+        topLogprobs: [
+          { token: "t1", id: 1, logprob: Math.log(0.5) },
+          { token: "t100", id: 100, logprob: Math.log(0.25) }
+        ]
+      }
+    ])
+  })
+
+  it("should report the chosen token when it is not among the top alternatives", async () => {
+    const { sequence } = createSequence(
+      () =>
+        new Map([
+          [100 as Token, 0.6],
+          [200 as Token, 0.3],
+          [1 as Token, 0.05],
+          [2 as Token, 0.03],
+          [3 as Token, 0.02]
+        ])
+    )
+    const recorder = recordLogprobs(sequence, 1, String)
+    await drain(sequence)
+
+    const [first] = recorder.take([1 as Token])
+    expect(first.logprob).toBe(Math.log(0.05))
+    expect(first.topLogprobs).toEqual([{ token: "100", id: 100, logprob: Math.log(0.6) }])
+  })
+
+  it("should skip sampled tokens that were never released", async () => {
+    const { sequence } = createSequence()
+    const recorder = recordLogprobs(sequence, 0, String)
+    await drain(sequence)
+
+    const logprobs = recorder.take([1, 3] as Token[])
+    expect(logprobs.map((entry) => entry.id)).toEqual([1, 3])
+    expect(logprobs[1].topLogprobs).toEqual([])
+    // Token 2 was passed over and cannot be matched afterwards
+    expect(recorder.take([2 as Token])).toEqual([])
+  })
+
+  it("should not match skipped tokens that share an id with a later one", async () => {
+    // A thought token and an answer token with the same id, sampled at different probabilities
+    const probabilities = [0.9, 0.4]
+    const { sequence } = createSequence((token) => new Map([[token, probabilities.shift() ?? 0]]), [
+      7, 7
+    ] as Token[])
+    const recorder = recordLogprobs(sequence, 0, String)
+    const tokens = sequence.evaluate([0 as Token])[Symbol.asyncIterator]()
+
+    await tokens.next()
+    // node-llama-cpp released the first token as part of a thought segment
+    recorder.skip()
+    await tokens.next()
+
+    const [answer] = recorder.take([7 as Token])
+    expect(answer.logprob).toBe(Math.log(0.4))
+  })
+
+  it("should restore the original evaluate on remove", () => {
+    const { sequence } = createSequence()
+    const recorder = recordLogprobs(sequence, 1, String)
+    recorder.remove()
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(sequence.evaluate).toBe(FakeSequence.prototype.evaluate)
+  })
+})
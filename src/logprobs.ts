@@ -0,0 +1,126 @@
+/**
+ * Token log probabilities
+ *
+ * node-llama-cpp only reports token probabilities at the sequence level, so
+ * while a prompt runs the sequence's `evaluate()` is routed through
+ * `evaluateWithMetadata()`. Of each distribution, which can cover the whole
+ * vocabulary, only the top alternatives and the chosen token are kept.
+ */
+
+import type { LlamaContextSequence, Token } from "node-llama-cpp"
+
+import type { TokenLogprob, TopLogprob } from "./types.js"
+
+/**
+ * Records token probabilities on a sequence during one prompt
+ */
+export interface LogprobsRecorder {
+  /**
+   * Log probabilities of answer tokens released by node-llama-cpp
+   *
+   * Sampled tokens that were never released (e.g. stop sequences) are
+   * skipped. Tokens without a recorded distribution are left out.
+   *
+   * @param tokens - Answer tokens, in generation order
+   */
+  take(tokens: readonly Token[]): TokenLogprob[]
+
+  /**
+   * Forget the tokens sampled so far
+   *
+   * Call when node-llama-cpp releases tokens outside the answer (thought
+   * segments, function calls), so a later answer token with the same id
+   * cannot match one of them.
+   */
+  skip(): void
+
+  /** Restore the sequence's own `evaluate()` */
+  remove(): void
+}
+
+/**
+ * Copy the first entries of a distribution, which node-llama-cpp sorts from most to least likely
+ */
+function topEntries(probabilities: Map<Token, number>, count: number): [Token, number][] {
+  const entries: [Token, number][] = []
+  for (const entry of probabilities) {
+    if (entries.length >= count) {
+      break
+    }
+    entries.push(entry)
+  }
+  return entries
+}
+
+/**
+ * Start recording token probabilities on a sequence
+ *
+ * @param sequence - The sequence the prompt runs on
+ * @param topN - Number of alternatives to keep per token
+ * @param detokenize - Converts a single token to its text
+ */
+export function recordLogprobs(
+  sequence: LlamaContextSequence,
+  topN: number,
+  detokenize: (token: Token) => string
+): LogprobsRecorder {
+  // Sampled tokens not taken yet, oldest first
+  const pending: { token: Token; probability: number; top: [Token, number][] }[] = []
+
+  sequence.evaluate = async function* (tokens, options) {
+    // The confidence is the chosen token's probability, even when it is not among the top
+    const iterator = sequence.evaluateWithMetadata(
+      tokens,
+      { confidence: true, probabilities: true },
+      options
+    )
+    try {
+      let next = await iterator.next()
+      while (next.done !== true) {
+        const { token, confidence, probabilities } = next.value
+        pending.push({ token, probability: confidence, top: topEntries(probabilities, topN) })
+        const input = yield token
+        next = await iterator.next(input)
+      }
+    } finally {
+      await iterator.return()
+    }
+  }
+
+  const toTopLogprob = (token: Token, probability: number): TopLogprob => ({
+    token: detokenize(token),
+    id: token,
+    logprob: Math.log(probability)
+  })
+
+  return {
+    take(tokens) {
+      const logprobs: TokenLogprob[] = []
+      for (const token of tokens) {
+        const index = pending.findIndex((entry) => entry.token === token)
+        if (index === -1) {
+          continue
+        }
+        const entry = pending[index]
+        // Tokens sampled before this one were never released and cannot be taken later
+        pending.splice(0, index + 1)
+        logprobs.push({
+          ...toTopLogprob(token, entry.probability),
+          topLogprobs: entry.top.map(([candidate, probability]) =>
+            toTopLogprob(candidate, probability)
+          )
+        })
+      }
+      return logprobs
+    },
+
+    skip() {
+      pending.length = 0
+    },
+
+    remove() {
+      // Drop the instance override so the prototype method is used again
+      Reflect.deleteProperty(sequence, "evaluate")
+    }
+  }
+}
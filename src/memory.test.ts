@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from "vitest"
+import { InsufficientMemoryError, type GgufInsights } from "node-llama-cpp"
+import { estimateMemoryUse, resolveMemory } from "./memory"
+
+const GB = 1e9
+
+// 40 layers of 0.5 GB; the KV cache takes 0.1 MB per token and layer on the same device
+function createInsights() {
+  return {
+    totalLayers: 40,
+    trainContextSize: 32768,
+    estimateModelResourceRequirements: ({ gpuLayers }: { gpuLayers: number }) => ({
+      cpuRam: (40 - gpuLayers) * 0.5 * GB,
+      gpuVram: gpuLayers * 0.5 * GB
+    }),
+    estimateContextResourceRequirements: ({
+      contextSize,
+      modelGpuLayers,
+      sequences = 1
+    }: {
+      contextSize: number
+      modelGpuLayers: number
+      sequences?: number
+    }) => ({
+      cpuRam: (40 - modelGpuLayers) * contextSize * sequences * 1e5,
+      gpuVram: modelGpuLayers * contextSize * sequences * 1e5
+    }),
+    configurationResolver: {
+      resolveModelGpuLayers: vi.fn(() => Promise.resolve(30)),
+      resolveContextContextSize: vi.fn(() => Promise.resolve(8192))
+    }
+  }
+}
+
+const asInsights = (insights: ReturnType<typeof createInsights>) =>
+  insights as unknown as GgufInsights
+
+describe("estimateMemoryUse", () => {
+  it("should estimate a configuration", () => {
+    const estimate = estimateMemoryUse(
+      createInsights(),
+      { ramBytes: 64 * GB, vramBytes: 64 * GB, unifiedBytes: 0 },
+      { contextSize: 4096, gpuLayers: -1, sequences: 1 }
+    )
+
+    expect(estimate).toMatchObject({
+      contextSize: 4096,
+      gpuLayers: 40,
+      totalLayers: 40,
+      model: { ramBytes: 0, vramBytes: 20 * GB },
+      context: { ramBytes: 0, vramBytes: 40 * 4096 * 1e5 },
+      fits: true
+    })
+    expect(estimate.total.vramBytes).toBe(20 * GB + 40 * 4096 * 1e5)
+  })
+
+  it("should report configurations that do not fit", () => {
+    const estimate = estimateMemoryUse(
+      createInsights(),
+      { ramBytes: 64 * GB, vramBytes: 8 * GB, unifiedBytes: 0 },
+      { contextSize: 4096, gpuLayers: 40, sequences: 1 }
+    )
+    expect(estimate.fits).toBe(false)
+  })
+
+  it("should count unified VRAM against RAM as well", () => {
+    // 20 layers and 2048 tokens: 10 GB + 4.1 GB of VRAM and 10 GB + 4.1 GB of RAM
+    const options = { contextSize: 2048, gpuLayers: 20, sequences: 1 }
+
+    const dedicated = estimateMemoryUse(
+      createInsights(),
+      { ramBytes: 24 * GB, vramBytes: 24 * GB, unifiedBytes: 0 },
+      options
+    )
+    // On Apple Silicon, the free VRAM and the free RAM are the same memory
+    const unified = estimateMemoryUse(
+      createInsights(),
+      { ramBytes: 24 * GB, vramBytes: 24 * GB, unifiedBytes: 24 * GB },
+      options
+    )
+
+    expect(dedicated.fits).toBe(true)
+    expect(unified.fits).toBe(false)
+  })
+})
+
+describe("resolveMemory", () => {
+  const available = { ramBytes: 32 * GB, vramBytes: 16 * GB, unifiedBytes: 0 }
+
+  it("should let node-llama-cpp fit the GPU layers to a fixed context", async () => {
+    const insights = createInsights()
+    const estimate = await resolveMemory(asInsights(insights), available, {
+      contextSize: 2048,
+      gpuLayers: "auto",
+      sequences: 1
+    })
+
+    expect(insights.configurationResolver.resolveModelGpuLayers).toHaveBeenCalledWith({
+      fitContext: { contextSize: 2048 }
+    })
+    expect(insights.configurationResolver.resolveContextContextSize).not.toHaveBeenCalled()
+    expect(estimate).toMatchObject({ gpuLayers: 30, contextSize: 2048 })
+  })
+
+  it("should fit the context next to the model, for every sequence", async () => {
+    const insights = createInsights()
+    const estimate = await resolveMemory(
+      asInsights(insights),
+      { ramBytes: 32 * GB, vramBytes: 16 * GB, unifiedBytes: 16 * GB },
+      { contextSize: "auto", gpuLayers: "auto", sequences: 2 }
+    )
+
+    expect(insights.configurationResolver.resolveModelGpuLayers).toHaveBeenCalledWith("auto")
+    const [contextSize, options] = insights.configurationResolver.resolveContextContextSize.mock
+      .calls[0] as unknown as [
+      string,
+      {
+        modelGpuLayers: number
+        sequences: number
+        getVramState: () => Promise<{ free: number }>
+        getRamState: () => Promise<{ free: number }>
+      }
+    ]
+    expect(contextSize).toBe("auto")
+    expect(options).toMatchObject({
+      modelGpuLayers: 30,
+      modelTrainContextSize: 32768,
+      sequences: 2
+    })
+    // 30 layers take 15 GB of the unified VRAM, which also leaves RAM for 10 CPU layers
+    expect((await options.getVramState()).free).toBe(1 * GB)
+    expect((await options.getRamState()).free).toBe(12 * GB)
+    expect(estimate).toMatchObject({ gpuLayers: 30, contextSize: 8192 })
+  })
+
+  it("should fall back to the smallest configuration when nothing fits", async () => {
+    const insights = createInsights()
+    insights.configurationResolver.resolveModelGpuLayers.mockRejectedValue(
+      new InsufficientMemoryError("Not enough VRAM")
+    )
+    insights.configurationResolver.resolveContextContextSize.mockRejectedValue(
+      new InsufficientMemoryError("Not enough RAM")
+    )
+
+    const estimate = await resolveMemory(
+      asInsights(insights),
+      { ramBytes: 1 * GB, vramBytes: 0, unifiedBytes: 0 },
+      { contextSize: "auto", gpuLayers: "auto", sequences: 1 }
+    )
+
+    expect(estimate).toMatchObject({ gpuLayers: 0, contextSize: 512, fits: false })
+    expect(estimate.total.ramBytes).toBe(20 * GB + 40 * 512 * 1e5)
+  })
+
+  it("should pass on other errors", async () => {
+    const insights = createInsights()
+    insights.configurationResolver.resolveModelGpuLayers.mockRejectedValue(new Error("No GPU"))
+
+    await expect(
+      resolveMemory(asInsights(insights), available, {
+        contextSize: 4096,
+        gpuLayers: "auto",
+        sequences: 1
+      })
+    ).rejects.toThrow("No GPU")
+  })
+})
@@ -0,0 +1,252 @@
+/**
+ * Memory estimation
+ *
+ * Estimates the RAM and VRAM a model needs from its GGUF metadata: the weights
+ * split between CPU and GPU layers, plus the KV cache, which grows with the
+ * context size and number of sequences. The arithmetic, and the choice of
+ * "auto" values, are node-llama-cpp's, so estimates match what loading does.
+ */
+
+import { totalmem } from "node:os"
+
+import { GgufInsights, InsufficientMemoryError, readGgufFileInfo, type Llama } from "node-llama-cpp"
+
+/** Context size reported when no "auto" context fits */
+const MIN_CONTEXT_SIZE = 512
+
+/** Context size assumed for models without a trained size */
+const BASE_CONTEXT_SIZE = 4096
+
+/**
+ * Bytes of RAM and VRAM
+ */
+export interface MemoryUsage {
+  ramBytes: number
+  vramBytes: number
+}
+
+/**
+ * Options for `LLMEngine.estimateMemory()`
+ */
+export interface MemoryOptions {
+  /** Context size, or "auto" for the largest that fits (default: the trained context length) */
+  contextSize?: number | "auto"
+
+  /** GPU layers (-1 = all), or "auto" for as many as fit (default: -1) */
+  gpuLayers?: number | "auto"
+
+  /** Parallel sequences, each with its own KV cache (default: 1) */
+  sequences?: number
+
+  /** Quantization variant of a registered model */
+  quantization?: string
+
+  /** Model cache directory, checked before reading the header from HuggingFace */
+  cacheDir?: string
+
+  /** HuggingFace token for gated models (default: HF_TOKEN environment variable) */
+  huggingFaceToken?: string
+}
+
+/**
+ * Free memory to fit a configuration into
+ */
+export interface AvailableMemory extends MemoryUsage {
+  /** Part of the VRAM that is system RAM, as on Apple Silicon; counted in both */
+  unifiedBytes: number
+}
+
+/**
+ * Estimated memory use of a model configuration
+ */
+export interface MemoryEstimate {
+  /** Context size the estimate is for */
+  contextSize: number
+
+  /** Layers offloaded to the GPU */
+  gpuLayers: number
+
+  /** Layers in the model */
+  totalLayers: number
+
+  /** Memory for the weights */
+  model: MemoryUsage
+
+  /** Memory for the context, mostly its KV cache */
+  context: MemoryUsage
+
+  /** Memory for both */
+  total: MemoryUsage
+
+  /** Free memory at the time of the estimate */
+  available: AvailableMemory
+
+  /** Whether the total fits in free memory */
+  fits: boolean
+}
+
+/** The parts of `GgufInsights` estimates are computed from */
+type Insights = Pick<
+  GgufInsights,
+  | "totalLayers"
+  | "trainContextSize"
+  | "estimateModelResourceRequirements"
+  | "estimateContextResourceRequirements"
+  | "configurationResolver"
+>
+
+/**
+ * Read the metadata llama.cpp's memory estimates are based on
+ *
+ * @param pathOrUri - Local path, or a URI or URL to read the header from without downloading
+ */
+export async function readModelInsights(
+  llama: Llama,
+  pathOrUri: string,
+  huggingFaceToken?: string
+): Promise<GgufInsights> {
+  const fileInfo = await readGgufFileInfo(pathOrUri, {
+    logWarnings: false,
+    tokens: huggingFaceToken ? { huggingFace: huggingFaceToken } : undefined
+  })
+  return GgufInsights.from(fileInfo, llama)
+}
+
+/**
+ * Get the free RAM and VRAM the way node-llama-cpp counts them
+ *
+ * RAM the OS could reclaim, such as the file cache, counts as free, so all
+ * RAM not used by this process is available.
+ */
+export async function getAvailableMemory(llama: Llama): Promise<AvailableMemory> {
+  const vram = llama.supportsGpuOffloading
+    ? await llama.getVramState()
+    : { free: 0, unifiedSize: 0 }
+  return {
+    ramBytes: Math.max(0, totalmem() - process.memoryUsage().rss),
+    vramBytes: vram.free,
+    unifiedBytes: vram.unifiedSize
+  }
+}
+
+/**
+ * RAM taken by a VRAM allocation, once the dedicated VRAM is used up
+ */
+function unifiedRamUsage(vramBytes: number, available: AvailableMemory): number {
+  const dedicated = Math.max(0, available.vramBytes - available.unifiedBytes)
+  return Math.min(available.unifiedBytes, Math.max(0, vramBytes - dedicated))
+}
+
+/**
+ * Estimate the memory use of a configuration
+ *
+ * @param options.gpuLayers - GPU layers, -1 for all
+ */
+export function estimateMemoryUse(
+  insights: Omit<Insights, "configurationResolver">,
+  available: AvailableMemory,
+  options: { contextSize: number; gpuLayers: number; sequences: number }
+): MemoryEstimate {
+  const { totalLayers } = insights
+  const gpuLayers = options.gpuLayers < 0 ? totalLayers : Math.min(options.gpuLayers, totalLayers)
+  const model = insights.estimateModelResourceRequirements({ gpuLayers })
+  const context = insights.estimateContextResourceRequirements({
+    contextSize: options.contextSize,
+    modelGpuLayers: gpuLayers,
+    sequences: options.sequences
+  })
+  const total = {
+    ramBytes: model.cpuRam + context.cpuRam,
+    vramBytes: model.gpuVram + context.gpuVram
+  }
+  return {
+    contextSize: options.contextSize,
+    gpuLayers,
+    totalLayers,
+    model: { ramBytes: model.cpuRam, vramBytes: model.gpuVram },
+    context: { ramBytes: context.cpuRam, vramBytes: context.gpuVram },
+    total,
+    available,
+    fits:
+      total.vramBytes <= available.vramBytes &&
+      total.ramBytes + unifiedRamUsage(total.vramBytes, available) <= available.ramBytes
+  }
+}
+
+/**
+ * Estimate the memory use of a configuration, resolving "auto" values
+ *
+ * "auto" is resolved by node-llama-cpp's configuration resolver, the same way
+ * `loadModel()` and `createContext()` resolve it: GPU layers first, leaving
+ * room for a context, then the largest context up to the trained length that
+ * fits next to the model. If nothing fits, the smallest configuration is
+ * returned with `fits: false`.
+ */
+export async function resolveMemory(
+  insights: Insights,
+  available: AvailableMemory,
+  options: { contextSize: number | "auto"; gpuLayers: number | "auto"; sequences: number }
+): Promise<MemoryEstimate> {
+  const resolver = insights.configurationResolver
+  const trainContextSize = insights.trainContextSize ?? BASE_CONTEXT_SIZE
+
+  const gpuLayers =
+    options.gpuLayers === "auto"
+      ? await resolver
+          .resolveModelGpuLayers(
+            options.contextSize === "auto"
+              ? "auto"
+              : { fitContext: { contextSize: options.contextSize } }
+          )
+          .catch(whenInsufficient(0))
+      : options.gpuLayers
+
+  let contextSize = options.contextSize
+  if (contextSize === "auto") {
+    // The model is not loaded, so its share comes out of the free memory first
+    const model = estimateMemoryUse(insights, available, {
+      contextSize: 0,
+      gpuLayers,
+      sequences: options.sequences
+    }).model
+    contextSize = await resolver
+      .resolveContextContextSize("auto", {
+        modelGpuLayers: gpuLayers < 0 ? insights.totalLayers : gpuLayers,
+        modelTrainContextSize: trainContextSize,
+        sequences: options.sequences,
+        getVramState: () =>
+          Promise.resolve({
+            total: available.vramBytes,
+            free: Math.max(0, available.vramBytes - model.vramBytes),
+            unifiedSize: available.unifiedBytes
+          }),
+        getRamState: () =>
+          Promise.resolve({
+            total: available.ramBytes,
+            free: Math.max(
+              0,
+              available.ramBytes - model.ramBytes - unifiedRamUsage(model.vramBytes, available)
+            )
+          })
+      })
+      .catch(whenInsufficient(Math.min(MIN_CONTEXT_SIZE, trainContextSize)))
+  }
+
+  return estimateMemoryUse(insights, available, {
+    contextSize,
+    gpuLayers,
+    sequences: options.sequences
+  })
+}
+
+/**
+ * Fall back to a value when node-llama-cpp finds that nothing fits
+ */
+function whenInsufficient(fallback: number): (error: unknown) => number {
+  return (error) => {
+    if (error instanceof InsufficientMemoryError) {
+      return fallback
+    }
+    throw error
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest"
+import { createPrefixCache } from "./prefix-cache"
+
+describe("createPrefixCache", () => {
+  it("should pick the item holding the prefix", () => {
+    const cache = createPrefixCache<string>({ maxEntries: 2 })
+    cache.record("a", "system A", 10)
+    cache.record("b", "system B", 20)
+
+    expect(cache.pick(["a", "b"], "system B")).toEqual({ item: "b", hit: true })
+  })
+
+  it("should prefer items without a prefix, then the least recently used", () => {
+    const cache = createPrefixCache<string>({ maxEntries: 2 })
+    cache.record("a", "system A", 10)
+    cache.record("b", "system B", 20)
+
+    expect(cache.pick(["a", "b", "c"], "system C")).toEqual({ item: "c", hit: false })
+    expect(cache.pick(["a", "b"], undefined)).toEqual({ item: "a", hit: false })
+
+    // A hit counts as a use
+    cache.pick(["a", "b"], "system A")
+    expect(cache.pick(["a", "b"], "system C")).toEqual({ item: "b", hit: false })
+  })
+
+  it("should return no item when none is idle", () => {
+    const cache = createPrefixCache<string>({ maxEntries: 1 })
+    expect(cache.pick([], "system A")).toEqual({ item: undefined, hit: false })
+  })
+
+  it("should evict the least recently used prefix beyond maxEntries", () => {
+    const cache = createPrefixCache<string>({ maxEntries: 2 })
+    cache.record("a", "system A", 10)
+    cache.record("b", "system B", 20)
+    cache.record("c", "system C", 30)
+
+    expect(cache.has("a")).toBe(false)
+    expect(cache.size).toBe(2)
+    expect(cache.tokens).toBe(50)
+  })
+
+  it("should evict prefixes beyond maxTokens", () => {
+    const cache = createPrefixCache<string>({ maxEntries: 3, maxTokens: 40 })
+    cache.record("a", "system A", 10)
+    cache.record("b", "system B", 20)
+    cache.record("c", "system C", 15)
+
+    expect(cache.has("a")).toBe(false)
+    expect(cache.tokens).toBe(35)
+
+    // A prefix larger than the budget is not kept at all
+    cache.record("d", "system D", 100)
+    expect(cache.size).toBe(0)
+    expect(cache.tokens).toBe(0)
+  })
+
+  it("should replace the prefix of an item and forget items", () => {
+    const cache = createPrefixCache<string>({ maxEntries: 2 })
+    cache.record("a", "system A", 10)
+    cache.record("a", "system B", 20)
+
+    expect(cache.size).toBe(1)
+    expect(cache.tokens).toBe(20)
+    expect(cache.pick(["a"], "system B").hit).toBe(true)
+
+    cache.forget("a")
+    expect(cache.has("a")).toBe(false)
+    expect(cache.tokens).toBe(0)
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Prompt-prefix caching
+ *
+ * Remembers which context sequence last evaluated which system prompt, so
+ * requests that share a system prompt can be sent to the sequence that
+ * already holds it in its KV cache. node-llama-cpp then only evaluates the
+ * part of the prompt that differs.
+ */
+
+/**
+ * Limits of a prefix cache
+ */
+export interface PrefixCacheLimits {
+  /** Maximum number of remembered prefixes, at most one per sequence */
+  maxEntries: number
+
+  /** Maximum total tokens of remembered prefixes (default: unlimited) */
+  maxTokens?: number
+}
+
+/**
+ * A bounded, least-recently-used map from prefixes to the items that hold them
+ */
+export interface PrefixCache<T> {
+  /**
+   * Choose one of the idle items for a request
+   *
+   * Returns the item holding the prefix if there is one. Otherwise prefers an
+   * item that holds no prefix, then the least recently used one.
+   *
+   * @param idle - Items that are free to use
+   * @param key - The request's prefix, if any
+   */
+  pick(idle: readonly T[], key: string | undefined): { item: T | undefined; hit: boolean }
+
+  /**
+   * Remember that an item holds a prefix, evicting old entries beyond the limits
+   *
+   * @param item - The item that evaluated the prefix
+   * @param key - The prefix
+   * @param tokens - Length of the prefix in tokens
+   */
+  record(item: T, key: string, tokens: number): void
+
+  /** Forget the prefix an item holds */
+  forget(item: T): void
+
+  /** Whether an item holds a remembered prefix */
+  has(item: T): boolean
+
+  /** Number of remembered prefixes */
+  readonly size: number
+
+  /** Total tokens of remembered prefixes */
+  readonly tokens: number
+}
+
+interface CacheEntry {
+  key: string
+  tokens: number
+  lastUsed: number
+}
+
+/**
+ * Create a prefix cache
+ *
+ * @param options - Entry and token limits
+ */
+export function createPrefixCache<T>(options: PrefixCacheLimits): PrefixCache<T> {
+  const maxTokens = options.maxTokens ?? Infinity
+  const entries = new Map<T, CacheEntry>()
+  let clock = 0
+  let tokens = 0
+
+  const remove = (item: T) => {
+    const entry = entries.get(item)
+    if (entry) {
+      tokens -= entry.tokens
+      entries.delete(item)
+    }
+  }
+
+  const leastRecentlyUsed = (items: Iterable<T>): T | undefined => {
+    let oldest: T | undefined
+    for (const item of items) {
+      const lastUsed = entries.get(item)?.lastUsed ?? -1
+      if (oldest === undefined || lastUsed < (entries.get(oldest)?.lastUsed ?? -1)) {
+        oldest = item
+      }
+    }
+    return oldest
+  }
+
+  return {
+    pick(idle, key) {
+      const holder =
+        key === undefined ? undefined : idle.find((item) => entries.get(item)?.key === key)
+      if (holder !== undefined) {
+        const entry = entries.get(holder)
+        if (entry) {
+          entry.lastUsed = ++clock
+        }
+        return { item: holder, hit: true }
+      }
+      return { item: leastRecentlyUsed(idle), hit: false }
+    },
+
+    record(item, key, prefixTokens) {
+      remove(item)
+      entries.set(item, { key, tokens: prefixTokens, lastUsed: ++clock })
+      tokens += prefixTokens
+
+      while (entries.size > options.maxEntries || tokens > maxTokens) {
+        const oldest = leastRecentlyUsed(entries.keys())
+        if (oldest === undefined) {
+          break
+        }
+        remove(oldest)
+      }
+    },
+
+    forget: remove,
+
+    has(item) {
+      return entries.has(item)
+    },
+
+    get size() {
+      return entries.size
+    },
+
+    get tokens() {
+      return tokens
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest"
+import { ModelRegistryError } from "./errors"
+import { createModelRegistry } from "./registry"
+import { MODELS } from "./types"
+
+const CUSTOM = { name: "My Model", file: "/models/my-model.gguf", contextLength: 16384 }
+
+describe("createModelRegistry", () => {
+  it("should start with the built-in models and aliases", () => {
+    const registry = createModelRegistry()
+
+    expect(registry.list()).toHaveLength(Object.keys(MODELS).length)
+    expect(registry.resolve("QWEN")).toEqual({ id: "qwen3-8b", ...MODELS["qwen3-8b"] })
+    expect(registry.resolve("/path/to/model.gguf")).toBeUndefined()
+  })
+
+  it("should register models and aliases case-insensitively", () => {
+    const registry = createModelRegistry()
+    registry.registerModel("My-Model", CUSTOM)
+    registry.registerAlias("mine", "my-model")
+    registry.registerAlias("also-mine", "MINE")
+
+    expect(registry.resolve("my-model")).toEqual({ id: "my-model", ...CUSTOM })
+    expect(registry.resolve("Also-Mine")?.id).toBe("my-model")
+    expect(registry.list().at(-1)?.id).toBe("my-model")
+  })
+
+  it("should reject ids and aliases that are taken", () => {
+    const registry = createModelRegistry()
+
+    expect(() => registry.registerModel("phi-4", CUSTOM)).toThrow(ModelRegistryError)
+    expect(() => registry.registerModel("gemma", CUSTOM)).toThrow('"gemma" is already registered')
+    expect(() => registry.registerAlias("qwen", "phi-4")).toThrow(ModelRegistryError)
+  })
+
+  it("should reject aliases to unknown models", () => {
+    const registry = createModelRegistry()
+    expect(() => registry.registerAlias("mine", "missing")).toThrow(
+      'Cannot alias "mine" to unknown model "missing"'
+    )
+  })
+
+  it("should validate entries", () => {
+    const registry = createModelRegistry()
+    const invalid = (id: string, entry: object) => () =>
+      registry.registerModel(id, { ...CUSTOM, ...entry })
+
+    expect(invalid("a", { name: "" })).toThrow('Invalid model "a": name must be a non-empty string')
+    expect(invalid("b", { contextLength: 0 })).toThrow("contextLength must be a positive integer")
+    expect(invalid("c", { repo: "no-owner", file: "model.gguf" })).toThrow("owner/name")
+    expect(invalid("d", { repo: "owner/name", file: "model.bin" })).toThrow(".gguf")
+    expect(invalid("e", { kind: "vision" })).toThrow("kind must be")
+    expect(invalid("f", { thinkingMode: "always" })).toThrow("thinkingMode must be")
+    expect(invalid("g", { kind: "embedding", dimensions: 1.5 })).toThrow("dimensions")
+    expect(invalid("h", { variants: { Q8_0: { file: "" } } })).toThrow("variant Q8_0 needs a file")
+    expect(invalid("i", { sha256: "abc" })).toThrow("sha256 must be 64 hex digits")
+    expect(invalid("j", { variants: { Q8_0: { file: "x.gguf", sizeBytes: -1 } } })).toThrow(
+      "variant Q8_0 sizeBytes must be a positive integer"
+    )
+    expect(invalid("/models/x.gguf", {})).toThrow('Invalid model id "/models/x.gguf"')
+    expect(registry.list()).toHaveLength(Object.keys(MODELS).length)
+  })
+
+  it("should unregister custom models with their aliases", () => {
+    const registry = createModelRegistry()
+    registry.registerModel("my-model", CUSTOM)
+    registry.registerAlias("mine", "my-model")
+
+    expect(registry.unregister("my-model")).toBe(true)
+    expect(registry.resolve("mine")).toBeUndefined()
+    expect(registry.unregister("my-model")).toBe(false)
+  })
+
+  it("should not unregister built-in models or aliases", () => {
+    const registry = createModelRegistry()
+    expect(() => registry.unregister("phi-4")).toThrow(ModelRegistryError)
+    expect(() => registry.unregister("gemma")).toThrow("is built in")
+  })
+
+  it("should not share state between registries", () => {
+    const first = createModelRegistry()
+    first.registerModel("my-model", CUSTOM)
+    expect(createModelRegistry().resolve("my-model")).toBeUndefined()
+  })
+})
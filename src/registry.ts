@@ -0,0 +1,238 @@
+/**
+ * Model registry
+ *
+ * Maps model ids and aliases to their metadata. Starts out with the built-in
+ * `MODELS` and `MODEL_ALIASES`; custom models registered at runtime get the
+ * same treatment as built-in ones (thinking mode, tools, context length).
+ */
+
+import { ModelRegistryError } from "./errors.js"
+import { MODEL_ALIASES, MODELS, type ModelEntry } from "./types.js"
+
+/**
+ * Registered models and aliases
+ *
+ * Ids and aliases are case-insensitive.
+ */
+export interface ModelRegistry {
+  /**
+   * Add a model
+   *
+   * @param id - Model id, e.g. "my-model"
+   * @param entry - The model's metadata
+   * @throws ModelRegistryError if the entry is invalid or the id is taken
+   */
+  registerModel(id: string, entry: ModelEntry): void
+
+  /**
+   * Add an alias for a registered model
+   *
+   * @param alias - The alias, e.g. "mine"
+   * @param id - Model id or existing alias it points to
+   * @throws ModelRegistryError if the alias is taken or the model is unknown
+   */
+  registerAlias(alias: string, id: string): void
+
+  /**
+   * Remove a custom model, with its aliases, or a custom alias
+   *
+   * @returns Whether anything was removed
+   * @throws ModelRegistryError for built-in models and aliases
+   */
+  unregister(id: string): boolean
+
+  /** All registered models, built-in ones first */
+  list(): ({ id: string } & ModelEntry)[]
+
+  /**
+   * Look up a model by id or alias
+   *
+   * @returns The model, or undefined if nothing is registered under that name
+   */
+  resolve(idOrAlias: string): ({ id: string } & ModelEntry) | undefined
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/
+
+/**
+ * Check a model entry, since it may come from untyped code or a config file
+ */
+function validateModelEntry(id: string, entry: ModelEntry): void {
+  const fail = (problem: string): never => {
+    throw new ModelRegistryError(id, `Invalid model "${id}": ${problem}`)
+  }
+  const isPositiveInteger = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value > 0
+
+  if (typeof entry.name !== "string" || entry.name.length === 0) {
+    fail("name must be a non-empty string")
+  }
+  if (typeof entry.file !== "string" || entry.file.length === 0) {
+    fail("file must be a non-empty string")
+  }
+  if (entry.repo !== undefined && !/^[^/\s]+\/[^/\s]+$/.test(entry.repo)) {
+    fail(`repo must look like "owner/name", got "${entry.repo}"`)
+  }
+  if (entry.repo !== undefined && !entry.file.endsWith(".gguf")) {
+    fail(`file must be a .gguf file, got "${entry.file}"`)
+  }
+  if (!isPositiveInteger(entry.contextLength)) {
+    fail("contextLength must be a positive integer")
+  }
+  if (entry.kind !== undefined && !["text", "embedding", "reranker"].includes(entry.kind)) {
+    fail(`kind must be "text", "embedding" or "reranker", got "${entry.kind}"`)
+  }
+  if (entry.thinkingMode !== undefined && !["qwen", "deepseek"].includes(entry.thinkingMode)) {
+    fail(`thinkingMode must be "qwen" or "deepseek", got "${entry.thinkingMode}"`)
+  }
+  if (entry.dimensions !== undefined && !isPositiveInteger(entry.dimensions)) {
+    fail("dimensions must be a positive integer")
+  }
+  const checkChecksums = (what: string, checksums: Pick<ModelEntry, "sizeBytes" | "sha256">) => {
+    if (checksums.sizeBytes !== undefined && !isPositiveInteger(checksums.sizeBytes)) {
+      fail(`${what}sizeBytes must be a positive integer`)
+    }
+    if (checksums.sha256 !== undefined && !/^[0-9a-f]{64}$/i.test(checksums.sha256)) {
+      fail(`${what}sha256 must be 64 hex digits`)
+    }
+  }
+  checkChecksums("", entry)
+  for (const [quantization, variant] of Object.entries(entry.variants ?? {})) {
+    if (typeof variant.file !== "string" || variant.file.length === 0) {
+      fail(`variant ${quantization} needs a file`)
+    }
+    if (entry.repo !== undefined && !variant.file.endsWith(".gguf")) {
+      fail(`variant ${quantization} must be a .gguf file, got "${variant.file}"`)
+    }
+    checkChecksums(`variant ${quantization} `, variant)
+  }
+}
+
+/**
+ * Switch a model entry to one of its quantization variants
+ *
+ * @throws Error if the model has no such variant
+ */
+export function selectVariant(id: string, entry: ModelEntry, quantization: string): ModelEntry {
+  const variants = entry.variants ?? {}
+  const key = Object.keys(variants).find(
+    (name) => name.toUpperCase() === quantization.toUpperCase()
+  )
+  if (key !== undefined) {
+    // The default file's checksums do not apply to other variants
+    return {
+      ...entry,
+      size: undefined,
+      sizeBytes: undefined,
+      sha256: undefined,
+      ...variants[key],
+      quantization: key
+    }
+  }
+  if (entry.quantization?.toUpperCase() === quantization.toUpperCase()) {
+    return entry
+  }
+  const available = [...new Set([entry.quantization, ...Object.keys(variants)])].filter(
+    (name) => name !== undefined
+  )
+  throw new Error(
+    `Model "${id}" has no ${quantization} variant` +
+      (available.length > 0 ? `; available: ${available.join(", ")}` : "")
+  )
+}
+
+/**
+ * Get the URI node-llama-cpp resolves a model entry from
+ */
+export function getModelUri(entry: ModelEntry): string {
+  // Without a repo, the file is a local path or URL
+  return entry.repo ? `hf:${entry.repo}/${entry.file}` : entry.file
+}
+
+/**
+ * Create a model registry holding the built-in models and aliases
+ */
+export function createModelRegistry(): ModelRegistry {
+  const builtIn = new Set<string>([...Object.keys(MODELS), ...Object.keys(MODEL_ALIASES)])
+  const models = new Map<string, ModelEntry>(Object.entries(MODELS))
+  const aliases = new Map<string, string>(Object.entries(MODEL_ALIASES))
+
+  const checkAvailable = (name: string, what: string) => {
+    if (!ID_PATTERN.test(name)) {
+      throw new ModelRegistryError(
+        name,
+        `Invalid ${what} "${name}": use lowercase letters, digits, ".", "_" and "-"`
+      )
+    }
+    if (models.has(name) || aliases.has(name)) {
+      throw new ModelRegistryError(name, `"${name}" is already registered`)
+    }
+  }
+
+  const resolve = (idOrAlias: string) => {
+    const key = idOrAlias.toLowerCase()
+    const id = aliases.get(key) ?? key
+    const entry = models.get(id)
+    return entry ? { id, ...entry } : undefined
+  }
+
+  return {
+    registerModel(id, entry) {
+      const key = id.toLowerCase()
+      checkAvailable(key, "model id")
+      validateModelEntry(key, entry)
+      models.set(key, { ...entry })
+    },
+
+    registerAlias(alias, id) {
+      const key = alias.toLowerCase()
+      checkAvailable(key, "alias")
+      const target = resolve(id)
+      if (!target) {
+        throw new ModelRegistryError(key, `Cannot alias "${key}" to unknown model "${id}"`)
+      }
+      aliases.set(key, target.id)
+    },
+
+    unregister(id) {
+      const key = id.toLowerCase()
+      if (builtIn.has(key)) {
+        throw new ModelRegistryError(key, `"${key}" is built in and cannot be unregistered`)
+      }
+      if (aliases.delete(key)) {
+        return true
+      }
+      if (!models.delete(key)) {
+        return false
+      }
+      for (const [alias, target] of aliases) {
+        if (target === key) {
+          aliases.delete(alias)
+        }
+      }
+      return true
+    },
+
+    list() {
+      return [...models].map(([id, entry]) => ({ id, ...entry }))
+    },
+
+    resolve
+  }
+}
+
+/**
+ * The registry used by `LLMEngine`, `listModels()` and `getModelForUseCase()`
+ *
+ * @example
+ * ```typescript
+ * modelRegistry.registerModel("my-model", {
+ *   name: "My Model",
+ *   file: "/models/my-model-Q4_K_M.gguf",
+ *   contextLength: 32768,
+ *   thinkingMode: "qwen"
+ * })
+ * const engine = new LLMEngine({ model: "my-model" })
+ * ```
+ */
+export const modelRegistry: ModelRegistry = createModelRegistry()
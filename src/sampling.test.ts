@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest"
+import type { Token, Tokenizer } from "node-llama-cpp"
+import { createTokenBias, findBannedTokens } from "./sampling"
+
+vi.mock("node-llama-cpp", () => ({
+  TokenBias: class {
+    entries = new Map<number | string, unknown>()
+    set(input: number | string, bias: unknown) {
+      this.entries.set(input, bias)
+      return this
+    }
+  }
+}))
+
+// One token per character
+const tokenizer = ((text: string) =>
+  Array.from(text, (char) => char.charCodeAt(0))) as unknown as Tokenizer
+
+function entriesOf(factory: (() => unknown) | undefined): Map<number | string, unknown> {
+  return (factory?.() as { entries: Map<number | string, unknown> }).entries
+}
+
+describe("findBannedTokens", () => {
+  it("should always ban single-token sequences", () => {
+    expect(findBannedTokens([[7]], [])).toEqual(new Set([7]))
+    expect(findBannedTokens([[7]], [1, 2])).toEqual(new Set([7]))
+  })
+
+  it("should ban the token that would complete a sequence", () => {
+    expect(findBannedTokens([[1, 2, 3]], [9, 1, 2])).toEqual(new Set([3]))
+    expect(findBannedTokens([[1, 2, 3]], [9, 1])).toEqual(new Set([2]))
+  })
+
+  it("should let sequences start", () => {
+    expect(findBannedTokens([[1, 2, 3]], [])).toEqual(new Set())
+    expect(findBannedTokens([[1, 2, 3]], [9, 2])).toEqual(new Set())
+  })
+
+  it("should check every partial match", () => {
+    // "1 1" may be the start of "1 1 2" or, shifted by one, of another "1 1"
+    expect(findBannedTokens([[1, 1, 2]], [1, 1])).toEqual(new Set([2, 1]))
+  })
+})
+
+describe("createTokenBias", () => {
+  it("should return nothing without biases or banned strings", () => {
+    expect(createTokenBias(tokenizer, {}, [])).toBeUndefined()
+    expect(createTokenBias(tokenizer, { bannedStrings: [""] }, [])).toBeUndefined()
+  })
+
+  it("should apply logit biases by token id and by text", () => {
+    const factory = createTokenBias(
+      tokenizer,
+      {
+        logitBias: [
+          { token: 42, bias: 2.5 },
+          { token: "no", bias: "never" }
+        ]
+      },
+      []
+    )
+
+    expect(entriesOf(factory)).toEqual(
+      new Map<number | string, unknown>([
+        [42, { logit: 2.5 }],
+        ["no", "never"]
+      ])
+    )
+  })
+
+  it("should ban the next token of a banned string as it is being generated", () => {
+    const generated: Token[] = []
+    const factory = createTokenBias(tokenizer, { bannedStrings: ["ab"] }, generated)
+
+    expect(entriesOf(factory).size).toBe(0)
+
+    generated.push("a".charCodeAt(0) as Token)
+    expect(entriesOf(factory)).toEqual(new Map([["b".charCodeAt(0), "never"]]))
+
+    // The variant with a leading space is banned as well
+    generated.push(" ".charCodeAt(0) as Token)
+    expect(entriesOf(factory)).toEqual(new Map([["a".charCodeAt(0), "never"]]))
+  })
+})
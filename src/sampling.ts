@@ -0,0 +1,80 @@
+/**
+ * Token bias helpers
+ *
+ * Turns `logitBias` and `bannedStrings` into a node-llama-cpp `TokenBias`
+ * that is rebuilt before every generated token.
+ */
+
+import { TokenBias, type Token, type Tokenizer } from "node-llama-cpp"
+
+import type { LogitBias } from "./types.js"
+
+/**
+ * Find the tokens that would complete a banned token sequence
+ *
+ * Single-token sequences are always banned. Longer ones may start, but their
+ * last token is banned once all the tokens before it were generated, so the
+ * sequence can never be completed.
+ *
+ * @param sequences - Token sequences of the banned strings
+ * @param generated - Tokens generated so far
+ */
+export function findBannedTokens<T>(
+  sequences: readonly (readonly T[])[],
+  generated: readonly T[]
+): Set<T> {
+  const banned = new Set<T>()
+  for (const sequence of sequences) {
+    for (let length = sequence.length - 1; length >= 0; length--) {
+      if (length > generated.length) {
+        continue
+      }
+      const tail = generated.slice(generated.length - length)
+      if (tail.every((token, index) => token === sequence[index])) {
+        if (length > 0 || sequence.length === 1) {
+          banned.add(sequence[length])
+        }
+      }
+    }
+  }
+  return banned
+}
+
+/**
+ * Create the token bias for a prompt
+ *
+ * Banned strings are tokenized with and without a leading space, since most
+ * tokenizers encode a word differently after a space.
+ *
+ * @param tokenizer - The model's tokenizer
+ * @param options - Logit biases and banned strings
+ * @param generated - Tokens generated so far; read before every token
+ * @returns A bias factory for `promptWithMeta`, or undefined if there is nothing to adjust
+ */
+export function createTokenBias(
+  tokenizer: Tokenizer,
+  options: { logitBias?: readonly LogitBias[]; bannedStrings?: readonly string[] },
+  generated: readonly Token[]
+): (() => TokenBias) | undefined {
+  const logitBias = options.logitBias ?? []
+  const sequences = (options.bannedStrings ?? [])
+    .filter((text) => text.length > 0)
+    .flatMap((text) => [tokenizer(text), tokenizer(` ${text}`)])
+    .filter((sequence) => sequence.length > 0)
+
+  if (logitBias.length === 0 && sequences.length === 0) {
+    return undefined
+  }
+
+  return () => {
+    const bias = new TokenBias(tokenizer)
+    for (const entry of logitBias) {
+      const input = typeof entry.token === "number" ? (entry.token as Token) : entry.token
+      bias.set(input, entry.bias === "never" ? "never" : { logit: entry.bias })
+    }
+    for (const token of findBannedTokens(sequences, generated)) {
+      bias.set(token, "never")
+    }
+    return bias
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest"
+import { EngineOverloadedError, GenerationAbortedError } from "./errors"
+import { createScheduler } from "./scheduler"
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+describe("createScheduler", () => {
+  it("should run tasks immediately while slots are free", async () => {
+    const scheduler = createScheduler({ maxConcurrency: 2 })
+    const gate = deferred()
+
+    const first = scheduler.run(() => gate.promise.then(() => "a"))
+    const second = scheduler.run(() => gate.promise.then(() => "b"))
+
+    expect(scheduler.running).toBe(2)
+    expect(scheduler.queued).toBe(0)
+
+    gate.resolve()
+    expect(await Promise.all([first, second])).toEqual(["a", "b"])
+  })
+
+  it("should run queued tasks in priority order, FIFO within a priority", async () => {
+    const scheduler = createScheduler({ maxConcurrency: 1 })
+    const gate = deferred()
+    const order: string[] = []
+    const task = (name: string) => () => {
+      order.push(name)
+      return Promise.resolve()
+    }
+
+    const blocker = scheduler.run(() => gate.promise)
+    const queued = [
+      scheduler.run(task("low")),
+      scheduler.run(task("high-1"), { priority: 10 }),
+      scheduler.run(task("normal")),
+      scheduler.run(task("high-2"), { priority: 10 })
+    ]
+
+    expect(scheduler.queued).toBe(4)
+    gate.resolve()
+    await Promise.all([blocker, ...queued])
+
+    expect(order).toEqual(["high-1", "high-2", "low", "normal"])
+  })
+
+  it("should report the time spent in the queue", async () => {
+    const scheduler = createScheduler({ maxConcurrency: 1 })
+    const gate = deferred()
+
+    const first = scheduler.run((wait) => gate.promise.then(() => wait))
+    const second = scheduler.run((wait) => Promise.resolve(wait))
+
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    gate.resolve()
+
+    expect(await first).toBe(0)
+    expect(await second).toBeGreaterThan(0.01)
+  })
+
+  it("should reject with EngineOverloadedError when the queue is full", async () => {
+    const scheduler = createScheduler({ maxConcurrency: 1, maxQueueLength: 1 })
+    const gate = deferred()
+
+    const running = scheduler.run(() => gate.promise)
+    const queued = scheduler.run(() => Promise.resolve())
+    const rejected = scheduler.run(() => Promise.resolve())
+
+    await expect(rejected).rejects.toBeInstanceOf(EngineOverloadedError)
+    await expect(rejected).rejects.toMatchObject({ queueLength: 1 })
+
+    gate.resolve()
+    await Promise.all([running, queued])
+  })
+
+  it("should remove aborted tasks from the queue", async () => {
+    const scheduler = createScheduler({ maxConcurrency: 1 })
+    const gate = deferred()
+    const controller = new AbortController()
+    let started = false
+
+    const running = scheduler.run(() => gate.promise)
+    const queued = scheduler.run(
+      () => {
+        started = true
+        return Promise.resolve()
+      },
+      { signal: controller.signal }
+    )
+
+    controller.abort()
+    await expect(queued).rejects.toBeInstanceOf(GenerationAbortedError)
+    expect(scheduler.queued).toBe(0)
+
+    gate.resolve()
+    await running
+    expect(started).toBe(false)
+  })
+
+  it("should settle aborted tasks with onAbort instead of rejecting", async () => {
+    const scheduler = createScheduler({ maxConcurrency: 1 })
+    const gate = deferred()
+    const controller = new AbortController()
+
+    const running = scheduler.run(() => gate.promise)
+    const queued = scheduler.run(
+      () => Promise.resolve("started"),
+      { signal: controller.signal },
+      () => "aborted"
+    )
+
+    controller.abort()
+    expect(await queued).toBe("aborted")
+    expect(scheduler.queued).toBe(0)
+    // Already aborted when queued
+    expect(
+      await scheduler.run(
+        () => Promise.resolve(-1),
+        { signal: controller.signal },
+        (queueWaitSeconds) => queueWaitSeconds
+      )
+    ).toBe(0)
+
+    gate.resolve()
+    await running
+  })
+
+  it("should free the slot when a task fails", async () => {
+    const scheduler = createScheduler({ maxConcurrency: 1 })
+
+    await expect(scheduler.run(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom")
+    expect(scheduler.running).toBe(0)
+    expect(await scheduler.run(() => Promise.resolve("next"))).toBe("next")
+  })
+})
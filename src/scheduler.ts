@@ -0,0 +1,126 @@
+/**
+ * Request scheduling
+ *
+ * Queues generation requests so that concurrent calls never share a chat
+ * session. Requests run in priority order, first-in first-out within a priority.
+ */
+
+import { EngineOverloadedError, GenerationAbortedError } from "./errors.js"
+
+/**
+ * Per-request scheduling options
+ */
+export interface ScheduleOptions {
+  /** Higher priorities run first (default: 0) */
+  priority?: number
+
+  /** Removes the request from the queue when aborted before it started */
+  signal?: AbortSignal
+}
+
+/**
+ * A bounded priority queue in front of a fixed number of execution slots
+ */
+export interface Scheduler {
+  /**
+   * Run a task once a slot is free
+   *
+   * @param task - Receives the time spent waiting in the queue, in seconds
+   * @param onAbort - Settles a task aborted while queued; receives the time it waited
+   * @throws EngineOverloadedError if the queue is full
+   * @throws GenerationAbortedError if the signal aborts while the task is queued, without `onAbort`
+   */
+  run<T>(
+    task: (queueWaitSeconds: number) => Promise<T>,
+    options?: ScheduleOptions,
+    onAbort?: (queueWaitSeconds: number) => T
+  ): Promise<T>
+
+  /** Number of tasks currently running */
+  readonly running: number
+
+  /** Number of tasks waiting for a slot */
+  readonly queued: number
+}
+
+interface QueueEntry {
+  priority: number
+  start(): void
+}
+
+/**
+ * Create a scheduler
+ *
+ * @param options - Number of tasks that may run at once and the maximum queue length
+ */
+export function createScheduler(options: {
+  maxConcurrency: number
+  maxQueueLength?: number
+}): Scheduler {
+  const maxQueueLength = options.maxQueueLength ?? Infinity
+  const queue: QueueEntry[] = []
+  let running = 0
+
+  const execute = async <T>(task: (queueWaitSeconds: number) => Promise<T>, wait: number) => {
+    running++
+    try {
+      return await task(wait)
+    } finally {
+      running--
+      queue.shift()?.start()
+    }
+  }
+
+  return {
+    run(task, { priority = 0, signal } = {}, onAbort) {
+      if (running < options.maxConcurrency) {
+        return execute(task, 0)
+      }
+
+      if (signal?.aborted) {
+        return onAbort
+          ? Promise.resolve(onAbort(0))
+          : Promise.reject(new GenerationAbortedError("signal", ""))
+      }
+
+      if (queue.length >= maxQueueLength) {
+        return Promise.reject(new EngineOverloadedError(queue.length))
+      }
+
+      const queuedAt = performance.now()
+
+      return new Promise((resolve, reject) => {
+        const abort = () => {
+          queue.splice(queue.indexOf(entry), 1)
+          if (onAbort) {
+            resolve(onAbort((performance.now() - queuedAt) / 1000))
+          } else {
+            reject(new GenerationAbortedError("signal", ""))
+          }
+        }
+
+        const entry: QueueEntry = {
+          priority,
+          start() {
+            signal?.removeEventListener("abort", abort)
+            execute(task, (performance.now() - queuedAt) / 1000).then(resolve, reject)
+          }
+        }
+
+        signal?.addEventListener("abort", abort, { once: true })
+
+        // Behind every entry of the same or a higher priority
+        const index = queue.findIndex((queued) => queued.priority < priority)
+        queue.splice(index === -1 ? queue.length : index, 0, entry)
+      })
+    },
+
+    get running() {
+      return running
+    },
+
+    get queued() {
+      return queue.length
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi } from "vitest"
+import type { LlamaContextSequence } from "node-llama-cpp"
+import {
+  createEventStream,
+  gateSequence,
+  toReadable,
+  toReadableStream,
+  type StreamSink
+} from "./stream"
+import type { StreamEvent } from "./types"
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const collected: StreamEvent[] = []
+  for await (const event of events) {
+    collected.push(event)
+  }
+  return collected
+}
+
+function tokens(...texts: string[]) {
+  return async (sink: StreamSink) => {
+    for (const text of texts) {
+      await sink.waitForDemand()
+      sink.push({ type: "token", text })
+    }
+  }
+}
+
+describe("createEventStream", () => {
+  it("should deliver events in order", async () => {
+    const events = await collect(createEventStream(tokens("a", "b", "c")))
+    expect(events).toEqual([
+      { type: "token", text: "a" },
+      { type: "token", text: "b" },
+      { type: "token", text: "c" }
+    ])
+  })
+
+  it("should not start before iteration begins", () => {
+    const run = vi.fn().mockResolvedValue(undefined)
+    createEventStream(run)
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it("should deliver errors as a final error event", async () => {
+    const events = await collect(
+      createEventStream((sink) => {
+        sink.push({ type: "token", text: "a" })
+        return Promise.reject(new Error("boom"))
+      })
+    )
+
+    expect(events).toHaveLength(2)
+    expect(events[1]).toEqual({ type: "error", error: new Error("boom") })
+  })
+
+  it("should pause the producer while the buffer is full", async () => {
+    let produced = 0
+    const stream = createEventStream(
+      async (sink) => {
+        for (let i = 0; i < 10; i++) {
+          await sink.waitForDemand()
+          sink.push({ type: "token", text: String(i) })
+          produced++
+        }
+      },
+      { highWaterMark: 2 }
+    )
+
+    const iterator = stream[Symbol.asyncIterator]()
+    await iterator.next()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    expect(produced).toBeLessThanOrEqual(3)
+
+    await iterator.return?.()
+  })
+
+  it("should abort the producer when the consumer stops early", async () => {
+    let aborted = false
+    const stream = createEventStream(async (sink) => {
+      sink.signal.addEventListener("abort", () => {
+        aborted = true
+      })
+      for (let i = 0; i < 100 && !sink.signal.aborted; i++) {
+        await sink.waitForDemand()
+        sink.push({ type: "token", text: String(i) })
+      }
+    })
+
+    for await (const event of stream) {
+      if (event.type === "token") {
+        break
+      }
+    }
+
+    expect(aborted).toBe(true)
+  })
+
+  it("should abort the producer when the upstream signal aborts", async () => {
+    const controller = new AbortController()
+    const stream = createEventStream(
+      (sink) =>
+        new Promise<void>((resolve) => {
+          sink.signal.addEventListener("abort", () => resolve())
+          controller.abort()
+        }),
+      { signal: controller.signal }
+    )
+
+    expect(await collect(stream)).toEqual([])
+  })
+})
+
+describe("gateSequence", () => {
+  function createSequence() {
+    const evaluate = vi.fn(async function* () {
+      await Promise.resolve()
+      yield 1
+      yield 2
+      yield 3
+    })
+    return { evaluate } as unknown as LlamaContextSequence
+  }
+
+  it("should wait for demand between tokens", async () => {
+    const sequence = createSequence()
+    const waitForDemand = vi.fn().mockResolvedValue(undefined)
+    gateSequence(sequence, waitForDemand)
+
+    const generated: number[] = []
+    for await (const token of sequence.evaluate([])) {
+      generated.push(token)
+    }
+
+    expect(generated).toEqual([1, 2, 3])
+    expect(waitForDemand).toHaveBeenCalledTimes(3)
+  })
+
+  it("should restore the original evaluate", () => {
+    class Sequence {
+      evaluate() {
+        return "original"
+      }
+    }
+    const sequence = new Sequence()
+    const remove = gateSequence(
+      sequence as unknown as LlamaContextSequence,
+      vi.fn().mockResolvedValue(undefined)
+    )
+
+    expect(Object.hasOwn(sequence, "evaluate")).toBe(true)
+    remove()
+    expect(Object.hasOwn(sequence, "evaluate")).toBe(false)
+    expect(sequence.evaluate()).toBe("original")
+  })
+})
+
+describe("toReadable", () => {
+  it("should emit answer text only", async () => {
+    const readable = toReadable(
+      createEventStream(async (sink) => {
+        await Promise.resolve()
+        sink.push({ type: "thought", text: "hmm" })
+        sink.push({ type: "token", text: "Hello" })
+        sink.push({ type: "token", text: " world" })
+      })
+    )
+
+    const chunks: string[] = []
+    for await (const chunk of readable) {
+      chunks.push(chunk as string)
+    }
+
+    expect(chunks.join("")).toBe("Hello world")
+  })
+
+  it("should destroy the stream on error events", async () => {
+    const readable = toReadable(createEventStream(() => Promise.reject(new Error("boom"))))
+    await expect(collect(readable as AsyncIterable<StreamEvent>)).rejects.toThrow("boom")
+  })
+})
+
+describe("toReadableStream", () => {
+  it("should emit UTF-8 encoded answer text", async () => {
+    const stream = toReadableStream(createEventStream(tokens("Hello", " world")))
+    const text = await new Response(stream).text()
+    expect(text).toBe("Hello world")
+  })
+
+  it("should error the stream on error events", async () => {
+    const stream = toReadableStream(createEventStream(() => Promise.reject(new Error("boom"))))
+    await expect(new Response(stream).text()).rejects.toThrow("boom")
+  })
+
+  it("should cancel generation when the stream is cancelled", async () => {
+    let aborted = false
+    const stream = toReadableStream(
+      createEventStream(async (sink) => {
+        sink.signal.addEventListener("abort", () => {
+          aborted = true
+        })
+        while (!sink.signal.aborted) {
+          await sink.waitForDemand()
+          sink.push({ type: "token", text: "x" })
+          await new Promise((resolve) => setTimeout(resolve, 1))
+        }
+      })
+    )
+
+    const reader = stream.getReader()
+    await reader.read()
+    await reader.cancel()
+
+    expect(aborted).toBe(true)
+  })
+})
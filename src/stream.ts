@@ -0,0 +1,221 @@
+/**
+ * Streaming primitives
+ *
+ * Turns a callback-driven generation into an `AsyncIterable<StreamEvent>` with
+ * backpressure, and converts that iterable into Node and web streams.
+ */
+
+import { Readable } from "node:stream"
+import type { LlamaContextSequence } from "node-llama-cpp"
+
+import type { StreamEvent } from "./types.js"
+
+/**
+ * Number of buffered events after which generation is paused
+ */
+const DEFAULT_HIGH_WATER_MARK = 16
+
+/**
+ * Producer side of an event stream
+ */
+export interface StreamSink {
+  /** Queue an event for the consumer */
+  push(event: StreamEvent): void
+
+  /** Resolves once the consumer has room for more events */
+  waitForDemand(): Promise<void>
+
+  /** Aborts when the consumer stops iterating early or the upstream signal aborts */
+  readonly signal: AbortSignal
+}
+
+/**
+ * Create a lazily started, backpressured event stream
+ *
+ * `run` is called when iteration begins. Errors thrown by `run` are delivered
+ * as a final `error` event instead of rejecting the iterator.
+ *
+ * @param run - Producer that pushes events into the sink
+ * @param options - Upstream abort signal and buffer size
+ */
+export function createEventStream(
+  run: (sink: StreamSink) => Promise<void>,
+  options: { signal?: AbortSignal; highWaterMark?: number } = {}
+): AsyncIterable<StreamEvent> {
+  const highWaterMark = options.highWaterMark ?? DEFAULT_HIGH_WATER_MARK
+
+  return {
+    [Symbol.asyncIterator](): AsyncIterator<StreamEvent> {
+      const buffer: StreamEvent[] = []
+      const controller = new AbortController()
+      let finished = false
+      let wakeConsumer: (() => void) | undefined
+      let wakeProducer: (() => void) | undefined
+
+      const onUpstreamAbort = () => controller.abort(options.signal?.reason)
+      if (options.signal?.aborted) {
+        onUpstreamAbort()
+      } else {
+        options.signal?.addEventListener("abort", onUpstreamAbort, { once: true })
+      }
+
+      const notifyConsumer = () => {
+        wakeConsumer?.()
+        wakeConsumer = undefined
+      }
+
+      const notifyProducer = () => {
+        wakeProducer?.()
+        wakeProducer = undefined
+      }
+
+      const sink: StreamSink = {
+        push(event) {
+          buffer.push(event)
+          notifyConsumer()
+        },
+        waitForDemand() {
+          if (buffer.length < highWaterMark || controller.signal.aborted) {
+            return Promise.resolve()
+          }
+          return new Promise((resolve) => {
+            wakeProducer = resolve
+          })
+        },
+        signal: controller.signal
+      }
+
+      const running = run(sink)
+        .catch((error: unknown) => {
+          sink.push({
+            type: "error",
+            error: error instanceof Error ? error : new Error(String(error))
+          })
+        })
+        .finally(() => {
+          finished = true
+          options.signal?.removeEventListener("abort", onUpstreamAbort)
+          notifyConsumer()
+        })
+
+      return {
+        async next() {
+          while (buffer.length === 0 && !finished) {
+            await new Promise<void>((resolve) => {
+              wakeConsumer = resolve
+            })
+          }
+
+          const event = buffer.shift()
+          if (buffer.length < highWaterMark) {
+            notifyProducer()
+          }
+
+          return event ? { value: event, done: false } : { value: undefined, done: true }
+        },
+
+        async return() {
+          // Consumer stopped early: cancel generation and wait for it to settle
+          controller.abort()
+          notifyProducer()
+          await running
+          buffer.length = 0
+          return { value: undefined, done: true }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Pause token generation on a sequence until the consumer wants more
+ *
+ * node-llama-cpp drives generation by pulling tokens from `sequence.evaluate()`.
+ * While installed, each pull first waits for `waitForDemand()`, so a slow consumer
+ * holds the native decode loop instead of letting events pile up in memory.
+ *
+ * @returns Function that removes the gate again
+ */
+export function gateSequence(
+  sequence: LlamaContextSequence,
+  waitForDemand: () => Promise<void>
+): () => void {
+  const evaluate = sequence.evaluate.bind(sequence)
+
+  sequence.evaluate = async function* (tokens, options) {
+    const iterator = evaluate(tokens, options)
+    try {
+      let next = await iterator.next()
+      while (next.done !== true) {
+        const input = yield next.value
+        await waitForDemand()
+        next = await iterator.next(input)
+      }
+    } finally {
+      await iterator.return()
+    }
+  }
+
+  return () => {
+    // Drop the instance override so the prototype method is used again
+    Reflect.deleteProperty(sequence, "evaluate")
+  }
+}
+
+/**
+ * Yield the answer text of an event stream, throwing on `error` events
+ */
+async function* streamText(events: AsyncIterable<StreamEvent>): AsyncGenerator<string, void> {
+  for await (const event of events) {
+    if (event.type === "token") {
+      yield event.text
+    } else if (event.type === "error") {
+      throw event.error
+    }
+  }
+}
+
+/**
+ * Convert an event stream into a Node.js `Readable` of answer text
+ *
+ * Only `token` events are written; an `error` event destroys the stream.
+ * The readable only pulls when its consumer reads, so backpressure propagates
+ * all the way to generation.
+ *
+ * @example
+ * ```typescript
+ * toReadable(engine.stream({ prompt: "Hello" })).pipe(response)
+ * ```
+ */
+export function toReadable(events: AsyncIterable<StreamEvent>): Readable {
+  return Readable.from(streamText(events))
+}
+
+/**
+ * Convert an event stream into a web `ReadableStream` of UTF-8 encoded answer text
+ *
+ * Useful for `fetch`-style handlers: `new Response(toReadableStream(events))`.
+ * Cancelling the web stream cancels generation.
+ */
+export function toReadableStream(events: AsyncIterable<StreamEvent>): ReadableStream<Uint8Array> {
+  const iterator = streamText(events)
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(encoder.encode(value))
+        }
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined)
+    }
+  })
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest"
+import { defineTool, toFunctionCallItems, toSessionFunctions } from "./tools"
+import type { ToolCall } from "./types"
+
+const getWeather = defineTool({
+  name: "getWeather",
+  description: "Get the current weather for a city",
+  parameters: {
+    type: "object",
+    properties: { city: { type: "string" } }
+  },
+  handler: ({ city }) => ({ city, temperature: 21 })
+})
+
+describe("defineTool", () => {
+  it("should return the tool unchanged", () => {
+    expect(getWeather.name).toBe("getWeather")
+  })
+
+  it("should infer handler arguments from the schema", () => {
+    defineTool({
+      name: "add",
+      parameters: {
+        type: "object",
+        properties: { a: { type: "number" }, b: { type: "number" } }
+      },
+      handler: (args) => {
+        expectTypeOf(args).toEqualTypeOf<{ a: number; b: number }>()
+        return args.a + args.b
+      }
+    })
+  })
+})
+
+describe("toSessionFunctions", () => {
+  it("should convert tools to session functions", () => {
+    const functions = toSessionFunctions([getWeather], [])
+
+    expect(Object.keys(functions)).toEqual(["getWeather"])
+    expect(functions.getWeather.description).toBe("Get the current weather for a city")
+    expect(functions.getWeather.params).toEqual(getWeather.parameters)
+  })
+
+  it("should record calls and return handler results", async () => {
+    const calls: ToolCall[] = []
+    const functions = toSessionFunctions([getWeather], calls)
+
+    const result: unknown = await functions.getWeather.handler({ city: "Berlin" })
+
+    expect(result).toEqual({ city: "Berlin", temperature: 21 })
+    expect(calls).toEqual([
+      {
+        name: "getWeather",
+        arguments: { city: "Berlin" },
+        result: { city: "Berlin", temperature: 21 }
+      }
+    ])
+  })
+
+  it("should report handler errors back to the model", async () => {
+    const calls: ToolCall[] = []
+    const failing = defineTool({
+      name: "fail",
+      handler: vi.fn().mockRejectedValue(new Error("Service unavailable"))
+    })
+    const functions = toSessionFunctions([failing], calls)
+
+    const result: unknown = await functions.fail.handler(undefined)
+
+    expect(result).toEqual({ error: "Service unavailable" })
+    expect(calls[0]?.error).toBe("Service unavailable")
+  })
+
+  it("should reject duplicate tool names", () => {
+    expect(() => toSessionFunctions([getWeather, getWeather], [])).toThrow(
+      "Duplicate tool name: getWeather"
+    )
+  })
+})
+
+describe("toFunctionCallItems", () => {
+  it("should convert recorded calls into chat history items", () => {
+    expect(
+      toFunctionCallItems([
+        { name: "getWeather", arguments: { city: "Berlin" }, result: { temperature: 21 } },
+        { name: "fail", arguments: undefined, result: undefined, error: "boom" }
+      ])
+    ).toEqual([
+      {
+        type: "functionCall",
+        name: "getWeather",
+        params: { city: "Berlin" },
+        result: { temperature: 21 }
+      },
+      { type: "functionCall", name: "fail", params: undefined, result: { error: "boom" } }
+    ])
+  })
+})
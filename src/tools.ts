@@ -0,0 +1,84 @@
+/**
+ * Tool (function) calling helpers
+ *
+ * Bridges our `Tool` definitions to node-llama-cpp's chat session functions,
+ * which take care of the model-specific call syntax and of feeding results back.
+ */
+
+import type { ChatModelFunctionCall, ChatSessionModelFunctions } from "node-llama-cpp"
+
+import type { AnyTool, JsonSchema, Tool, ToolCall } from "./types.js"
+
+/**
+ * Define a tool with argument types inferred from its parameter schema
+ *
+ * @example
+ * ```typescript
+ * const getWeather = defineTool({
+ *   name: "getWeather",
+ *   description: "Get the current weather for a city",
+ *   parameters: {
+ *     type: "object",
+ *     properties: { city: { type: "string" } }
+ *   },
+ *   handler: ({ city }) => ({ city, temperature: 21 })
+ * })
+ * ```
+ */
+export function defineTool<const Params extends JsonSchema | undefined = undefined>(
+  tool: Tool<Params>
+): Tool<Params> {
+  return tool
+}
+
+/**
+ * Convert tools into node-llama-cpp chat session functions
+ *
+ * Every call is recorded in `calls`. Handler errors are reported back to the
+ * model as `{ error }` so it can recover, instead of failing the whole chat.
+ *
+ * @param tools - Tools the model may call
+ * @param calls - Array that receives a record of each call
+ */
+export function toSessionFunctions(
+  tools: readonly AnyTool[],
+  calls: ToolCall[]
+): ChatSessionModelFunctions {
+  const functions: Record<string, ChatSessionModelFunctions[string]> = {}
+
+  for (const tool of tools) {
+    if (tool.name in functions) {
+      throw new Error(`Duplicate tool name: ${tool.name}`)
+    }
+
+    functions[tool.name] = {
+      description: tool.description,
+      params: tool.parameters as JsonSchema | undefined,
+      handler: async (args: unknown) => {
+        try {
+          const result: unknown = await tool.handler(args)
+          calls.push({ name: tool.name, arguments: args, result })
+          return result
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          calls.push({ name: tool.name, arguments: args, result: undefined, error: message })
+          return { error: message }
+        }
+      }
+    }
+  }
+
+  return functions
+}
+
+/**
+ * Convert recorded tool calls into chat history items for replay
+ */
+export function toFunctionCallItems(calls: readonly ToolCall[]): ChatModelFunctionCall[] {
+  return calls.map((call) => ({
+    type: "functionCall",
+    name: call.name,
+    params: call.arguments,
+    result: call.error === undefined ? call.result : { error: call.error }
+  }))
+}
@@ -1,6 +1,11 @@
 import { describe, it, expect } from "vitest"
 import { MODELS, MODEL_ALIASES, RECOMMENDED_MODELS } from "./types"
 
+const TEXT_MODELS = Object.entries(MODELS).filter(([, model]) => !("kind" in model))
+const EMBEDDING_MODELS = Object.entries(MODELS).filter(
+  ([, model]) => (model as { kind?: string }).kind === "embedding"
+)
+
 describe("MODELS", () => {
   it("should have required fields for all models", () => {
     for (const [id, model] of Object.entries(MODELS)) {
@@ -15,10 +20,11 @@ describe("MODELS", () => {
     }
   })
 
-  it("should have benchmarks for all models", () => {
-    for (const [id, model] of Object.entries(MODELS)) {
-      expect(model.benchmarks, `${id} missing benchmarks`).toBeDefined()
-      expect(model.benchmarks.mmlu, `${id} missing mmlu benchmark`).toBeGreaterThan(0)
+  it("should have benchmarks for all text models", () => {
+    for (const [id, model] of TEXT_MODELS) {
+      const { benchmarks } = model as { benchmarks?: { mmlu: number } }
+      expect(benchmarks, `${id} missing benchmarks`).toBeDefined()
+      expect(benchmarks?.mmlu, `${id} missing mmlu benchmark`).toBeGreaterThan(0)
     }
   })
 
@@ -28,11 +34,60 @@ describe("MODELS", () => {
     }
   })
 
-  it("should have Q4_K_M quantization for all models", () => {
-    for (const [id, model] of Object.entries(MODELS)) {
+  it("should have Q4_K_M quantization for all text models", () => {
+    for (const [id, model] of TEXT_MODELS) {
       expect(model.quantization, `${id} should use Q4_K_M`).toBe("Q4_K_M")
     }
   })
+
+  it("should list the default file among the variants", () => {
+    for (const [id, model] of TEXT_MODELS) {
+      const { variants } = model as { variants?: Record<string, { file: string }> }
+      expect(variants?.[model.quantization]?.file, `${id} default variant`).toBe(model.file)
+      for (const [quantization, variant] of Object.entries(variants ?? {})) {
+        expect(variant.file, `${id} ${quantization} variant`).toMatch(
+          new RegExp(`${quantization}\\.gguf$`)
+        )
+      }
+    }
+  })
+})
+
+describe("embedding models", () => {
+  it("should only use known model kinds", () => {
+    for (const [id, model] of Object.entries(MODELS)) {
+      const { kind } = model as { kind?: string }
+      expect([undefined, "embedding", "reranker"], `${id} has an unknown kind`).toContain(kind)
+    }
+  })
+
+  it("should mark embedding models with kind and dimensions", () => {
+    expect(EMBEDDING_MODELS.map(([id]) => id)).toContain("bge-m3")
+    for (const [id, model] of EMBEDDING_MODELS) {
+      const info = model as { dimensions?: number }
+      expect(info.dimensions, `${id} missing dimensions`).toBeGreaterThan(0)
+    }
+  })
+
+  it("should recommend an embedding model", () => {
+    expect(MODELS[RECOMMENDED_MODELS.embedding]).toMatchObject({ kind: "embedding" })
+  })
+
+  it("should recommend a reranker model", () => {
+    expect(MODELS[RECOMMENDED_MODELS.reranking]).toMatchObject({ kind: "reranker" })
+  })
+})
+
+describe("tool support", () => {
+  it("should mark tool-capable models", () => {
+    const toolModels = Object.entries(MODELS)
+      .filter(([, model]) => (model as { supportsTools?: boolean }).supportsTools)
+      .map(([id]) => id)
+
+    expect(toolModels).toContain("qwen3-8b")
+    expect(toolModels).toContain("qwen-2.5-coder-7b")
+    expect(toolModels).not.toContain("deepseek-r1-7b")
+  })
 })
 
 describe("MODEL_ALIASES", () => {
@@ -4,6 +4,23 @@
  * Uses node-llama-cpp with GGUF models for efficient local inference.
  */
 
+import type { GbnfJsonSchema, GbnfJsonSchemaToType } from "node-llama-cpp"
+
+/**
+ * Build the variants of a model whose repo names files after their quantization
+ *
+ * @param file - The Q4_K_M file name
+ * @param sizes - Approximate file size per quantization
+ */
+function quantizations(file: string, sizes: Record<string, string>): Record<string, ModelVariant> {
+  return Object.fromEntries(
+    Object.entries(sizes).map(([quantization, size]) => [
+      quantization,
+      { file: file.replace("Q4_K_M", quantization), size }
+    ])
+  )
+}
+
 /**
  * Available GGUF models from HuggingFace
  *
@@ -11,8 +28,11 @@
  * Q4_K_M quantization offers best quality/size tradeoff.
  *
  * Auth: Models marked with `requiresAuth: true` need HF_TOKEN environment variable.
+ * Tools: Models marked with `supportsTools: true` can call tools in `chat()`.
+ * Embeddings: Models marked with `kind: "embedding"` only support `embed()`.
+ * Reranking: Models marked with `kind: "reranker"` only support `rerank()`.
  *
- * Quantization guide:
+ * Quantization guide (pick one of a model's `variants` with `EngineOptions.quantization`):
  * - Q8_0: Highest quality, ~1 byte/param
  * - Q6_K: Very high quality, ~0.75 byte/param
  * - Q5_K_M: High quality, ~0.6 byte/param
@@ -30,6 +50,13 @@ export const MODELS = {
     file: "gemma-3n-E2B-it-Q4_K_M.gguf",
     parameters: "5B→2B",
     quantization: "Q4_K_M",
+    variants: quantizations("gemma-3n-E2B-it-Q4_K_M.gguf", {
+      Q8_0: "4.8 GB",
+      Q6_K: "3.9 GB",
+      Q5_K_M: "3.4 GB",
+      Q4_K_M: "3.0 GB",
+      Q3_K_M: "2.6 GB"
+    }),
     contextLength: 32768,
     languages: ["en", "de", "fr", "es", "it", "pt", "nl", "pl", "ru", "ja", "ko", "zh"],
     description: "Ultra-efficient edge model, ~2GB RAM",
@@ -42,6 +69,13 @@ export const MODELS = {
     file: "gemma-3n-E4B-it-Q4_K_M.gguf",
     parameters: "8B→4B",
     quantization: "Q4_K_M",
+    variants: quantizations("gemma-3n-E4B-it-Q4_K_M.gguf", {
+      Q8_0: "7.4 GB",
+      Q6_K: "5.9 GB",
+      Q5_K_M: "5.2 GB",
+      Q4_K_M: "4.5 GB",
+      Q3_K_M: "3.8 GB"
+    }),
     contextLength: 32768,
     languages: ["en", "de", "fr", "es", "it", "pt", "nl", "pl", "ru", "ja", "ko", "zh"],
     description: "Best edge model, ~3GB RAM",
@@ -59,9 +93,17 @@ export const MODELS = {
     file: "gemma-3-27b-it-Q4_K_M.gguf",
     parameters: "27B",
     quantization: "Q4_K_M",
+    variants: quantizations("gemma-3-27b-it-Q4_K_M.gguf", {
+      Q8_0: "28.7 GB",
+      Q6_K: "22.2 GB",
+      Q5_K_M: "19.3 GB",
+      Q4_K_M: "16.5 GB",
+      Q3_K_M: "13.4 GB"
+    }),
     contextLength: 131072,
     languages: ["en", "de", "fr", "es", "it", "pt", "nl", "pl", "ru", "ja", "ko", "zh"],
     description: "Maximum quality, 128K context, ~18GB RAM",
+    supportsTools: true,
     benchmarks: { mmlu: 77, arena: 1338 }
   },
 
@@ -75,9 +117,11 @@ export const MODELS = {
     file: "gpt-oss-20b-Q4_K_M.gguf",
     parameters: "21B (3.6B active)",
     quantization: "Q4_K_M",
+    variants: quantizations("gpt-oss-20b-Q4_K_M.gguf", { Q8_0: "12.1 GB", Q4_K_M: "11.6 GB" }),
     contextLength: 131072,
     languages: ["en"],
     description: "OpenAI's open model, MoE, ~16GB RAM",
+    supportsTools: true,
     benchmarks: { mmlu: 82, arena: 1340 }
   },
 
@@ -90,6 +134,13 @@ export const MODELS = {
     file: "phi-4-Q4_K_M.gguf",
     parameters: "14B",
     quantization: "Q4_K_M",
+    variants: quantizations("phi-4-Q4_K_M.gguf", {
+      Q8_0: "15.6 GB",
+      Q6_K: "12.0 GB",
+      Q5_K_M: "10.6 GB",
+      Q4_K_M: "9.1 GB",
+      Q3_K_M: "7.4 GB"
+    }),
     contextLength: 16384,
     languages: ["en"],
     description: "Microsoft's reasoning-focused, excellent for STEM",
@@ -98,7 +149,7 @@ export const MODELS = {
 
   // ============================================
   // Qwen3 - Latest generation with thinking mode
-  // Use enableThinking: true to see chain-of-thought reasoning
+  // Use enableThinking: true to let them reason before answering
   // ============================================
   "qwen3-4b": {
     name: "Qwen3 4B",
@@ -106,10 +157,18 @@ export const MODELS = {
     file: "Qwen3-4B-Q4_K_M.gguf",
     parameters: "4B",
     quantization: "Q4_K_M",
+    variants: quantizations("Qwen3-4B-Q4_K_M.gguf", {
+      Q8_0: "4.3 GB",
+      Q6_K: "3.3 GB",
+      Q5_K_M: "2.9 GB",
+      Q4_K_M: "2.5 GB",
+      Q3_K_M: "2.1 GB"
+    }),
     contextLength: 32768,
     languages: ["en", "zh", "de", "fr", "es", "pt", "it", "nl", "pl", "ru", "ja", "ko"],
     description: "Thinking mode, 100+ languages, ~3GB RAM",
-    thinkingMode: "qwen", // Supports /no_think prefix
+    thinkingMode: "qwen", // Thinking can be switched off
+    supportsTools: true,
     benchmarks: { mmlu: 76, arena: 1300 }
   },
   "qwen3-8b": {
@@ -118,10 +177,18 @@ export const MODELS = {
     file: "Qwen3-8B-Q4_K_M.gguf",
     parameters: "8B",
     quantization: "Q4_K_M",
+    variants: quantizations("Qwen3-8B-Q4_K_M.gguf", {
+      Q8_0: "8.7 GB",
+      Q6_K: "6.7 GB",
+      Q5_K_M: "5.9 GB",
+      Q4_K_M: "5.0 GB",
+      Q3_K_M: "4.1 GB"
+    }),
     contextLength: 32768,
     languages: ["en", "zh", "de", "fr", "es", "pt", "it", "nl", "pl", "ru", "ja", "ko"],
     description: "Thinking mode, excellent multilingual, ~5GB RAM",
     thinkingMode: "qwen",
+    supportsTools: true,
     benchmarks: { mmlu: 81, arena: 1350 }
   },
   "qwen3-14b": {
@@ -130,10 +197,18 @@ export const MODELS = {
     file: "Qwen3-14B-Q4_K_M.gguf",
     parameters: "14B",
     quantization: "Q4_K_M",
+    variants: quantizations("Qwen3-14B-Q4_K_M.gguf", {
+      Q8_0: "15.7 GB",
+      Q6_K: "12.1 GB",
+      Q5_K_M: "10.5 GB",
+      Q4_K_M: "9.0 GB",
+      Q3_K_M: "7.3 GB"
+    }),
     contextLength: 32768,
     languages: ["en", "zh", "de", "fr", "es", "pt", "it", "nl", "pl", "ru", "ja", "ko"],
     description: "Thinking mode, top multilingual, ~9GB RAM",
     thinkingMode: "qwen",
+    supportsTools: true,
     benchmarks: { mmlu: 84, arena: 1380 }
   },
   "qwen-2.5-coder-7b": {
@@ -142,9 +217,17 @@ export const MODELS = {
     file: "Qwen2.5-Coder-7B-Instruct-Q4_K_M.gguf",
     parameters: "7B",
     quantization: "Q4_K_M",
+    variants: quantizations("Qwen2.5-Coder-7B-Instruct-Q4_K_M.gguf", {
+      Q8_0: "8.1 GB",
+      Q6_K: "6.3 GB",
+      Q5_K_M: "5.4 GB",
+      Q4_K_M: "4.7 GB",
+      Q3_K_M: "3.8 GB"
+    }),
     contextLength: 131072,
     languages: ["en"],
     description: "Optimized for code generation",
+    supportsTools: true,
     benchmarks: { mmlu: 66, arena: 1250 }
   },
 
@@ -158,10 +241,17 @@ export const MODELS = {
     file: "DeepSeek-R1-Distill-Qwen-7B-Q4_K_M.gguf",
     parameters: "7B",
     quantization: "Q4_K_M",
+    variants: quantizations("DeepSeek-R1-Distill-Qwen-7B-Q4_K_M.gguf", {
+      Q8_0: "8.1 GB",
+      Q6_K: "6.3 GB",
+      Q5_K_M: "5.4 GB",
+      Q4_K_M: "4.7 GB",
+      Q3_K_M: "3.8 GB"
+    }),
     contextLength: 131072,
     languages: ["en", "zh"],
     description: "Strong reasoning with chain-of-thought",
-    thinkingMode: "deepseek", // Always thinks, needs more tokens
+    thinkingMode: "deepseek", // Thinks by default, needs more tokens
     benchmarks: { mmlu: 72, arena: 1300 }
   },
   "deepseek-r1-14b": {
@@ -170,17 +260,146 @@ export const MODELS = {
     file: "DeepSeek-R1-Distill-Qwen-14B-Q4_K_M.gguf",
     parameters: "14B",
     quantization: "Q4_K_M",
+    variants: quantizations("DeepSeek-R1-Distill-Qwen-14B-Q4_K_M.gguf", {
+      Q8_0: "15.7 GB",
+      Q6_K: "12.1 GB",
+      Q5_K_M: "10.5 GB",
+      Q4_K_M: "9.0 GB",
+      Q3_K_M: "7.3 GB"
+    }),
     contextLength: 131072,
     languages: ["en", "zh"],
     description: "Best reasoning model, shows thinking",
     thinkingMode: "deepseek",
     benchmarks: { mmlu: 79, arena: 1350 }
+  },
+
+  // ============================================
+  // Embedding models - For embed(), cannot generate text
+  // Small enough to keep at Q8_0
+  // ============================================
+  "bge-m3": {
+    name: "BGE-M3",
+    repo: "ggml-org/bge-m3-Q8_0-GGUF",
+    file: "bge-m3-q8_0.gguf",
+    parameters: "568M",
+    quantization: "Q8_0",
+    contextLength: 8192,
+    languages: ["en", "zh", "de", "fr", "es", "pt", "it", "nl", "pl", "ru", "ja", "ko"],
+    description: "Multilingual embeddings, 1024 dimensions",
+    kind: "embedding",
+    dimensions: 1024
+  },
+  "nomic-embed-text-v1.5": {
+    name: "Nomic Embed Text v1.5",
+    repo: "nomic-ai/nomic-embed-text-v1.5-GGUF",
+    file: "nomic-embed-text-v1.5.Q8_0.gguf",
+    parameters: "137M",
+    quantization: "Q8_0",
+    contextLength: 2048,
+    languages: ["en"],
+    description:
+      "Fast English embeddings, 768 dimensions (prefix texts with search_query:/search_document:)",
+    kind: "embedding",
+    dimensions: 768
+  },
+  "qwen3-embedding-0.6b": {
+    name: "Qwen3 Embedding 0.6B",
+    repo: "Qwen/Qwen3-Embedding-0.6B-GGUF",
+    file: "Qwen3-Embedding-0.6B-Q8_0.gguf",
+    parameters: "0.6B",
+    quantization: "Q8_0",
+    contextLength: 32768,
+    languages: ["en", "zh", "de", "fr", "es", "pt", "it", "nl", "pl", "ru", "ja", "ko"],
+    description: "Multilingual embeddings with long context, 1024 dimensions",
+    kind: "embedding",
+    dimensions: 1024
+  },
+
+  // ============================================
+  // Reranker models - For rerank(), cannot generate text
+  // ============================================
+  "bge-reranker-v2-m3": {
+    name: "BGE Reranker v2 M3",
+    repo: "gpustack/bge-reranker-v2-m3-GGUF",
+    file: "bge-reranker-v2-m3-Q8_0.gguf",
+    parameters: "568M",
+    quantization: "Q8_0",
+    contextLength: 8192,
+    languages: ["en", "zh", "de", "fr", "es", "pt", "it", "nl", "pl", "ru", "ja", "ko"],
+    description: "Multilingual cross-encoder for reranking search results",
+    kind: "reranker"
   }
-} as const
+} as const satisfies Record<string, ModelEntry>
 
 export type ModelId = keyof typeof MODELS
 export type ModelInfo = (typeof MODELS)[ModelId]
 
+/**
+ * Metadata of a model in the model registry
+ *
+ * Built-in models in `MODELS` have every field set. Models added with
+ * `modelRegistry.registerModel()` only need a name, a file and the context length.
+ */
+export interface ModelEntry {
+  /** Display name */
+  name: string
+
+  /** HuggingFace repository; without it, `file` is a local path or URL */
+  repo?: string
+
+  /** GGUF file name in `repo`, or a local path or URL */
+  file: string
+
+  /** Parameter count, e.g. "8B" */
+  parameters?: string
+
+  /** Quantization of the file, e.g. "Q4_K_M" */
+  quantization?: string
+
+  /** Approximate file size, e.g. "5.0 GB" */
+  size?: string
+
+  /** Exact file size in bytes, checked before loading */
+  sizeBytes?: number
+
+  /** SHA-256 of the file as hex, checked after download and by `verifyModel()` */
+  sha256?: string
+
+  /** Other quantizations of the model in the same repo, keyed by quantization */
+  variants?: Record<string, ModelVariant>
+
+  /** Context length the model was trained for, in tokens */
+  contextLength: number
+
+  /** Supported languages as ISO 639-1 codes */
+  languages?: readonly string[]
+
+  /** Short description */
+  description?: string
+
+  /** Whether downloading needs a HuggingFace token */
+  requiresAuth?: boolean
+
+  /** How the model thinks: Qwen3 can switch it off, DeepSeek R1 always thinks */
+  thinkingMode?: "qwen" | "deepseek"
+
+  /** Whether the model can call tools in `chat()` */
+  supportsTools?: boolean
+
+  /** What the model is for (default: "text") */
+  kind?: "text" | "embedding" | "reranker"
+
+  /** Embedding size, for embedding models */
+  dimensions?: number
+
+  /** Benchmark scores */
+  benchmarks?: { mmlu?: number; arena?: number }
+
+  /** Use cases `getModelForUseCase()` returns this model for, instead of the built-in pick */
+  recommendedFor?: readonly UseCase[]
+}
+
 /**
  * Short model name aliases for convenience
  */
@@ -202,7 +421,14 @@ export const MODEL_ALIASES: Record<string, ModelId> = {
   "qwen-coder": "qwen-2.5-coder-7b",
 
   // DeepSeek
-  deepseek: "deepseek-r1-7b"
+  deepseek: "deepseek-r1-7b",
+
+  // Embeddings
+  bge: "bge-m3",
+  nomic: "nomic-embed-text-v1.5",
+
+  // Reranking
+  reranker: "bge-reranker-v2-m3"
 }
 
 /**
@@ -224,9 +450,35 @@ export const RECOMMENDED_MODELS = {
   /** Code generation */
   code: "qwen-2.5-coder-7b",
   /** Long documents (128K context) */
-  longContext: "gemma-3-27b"
+  longContext: "gemma-3-27b",
+  /** Text embeddings for search and similarity (~0.6GB RAM) */
+  embedding: "bge-m3",
+  /** Reranking search results (~0.6GB RAM) */
+  reranking: "bge-reranker-v2-m3"
 } as const
 
+/**
+ * A quantization of a model, selected with `EngineOptions.quantization`
+ */
+export interface ModelVariant {
+  /** GGUF file name in the model's repo, or a local path or URL */
+  file: string
+
+  /** Approximate file size, e.g. "8.7 GB" */
+  size?: string
+
+  /** Exact file size in bytes */
+  sizeBytes?: number
+
+  /** SHA-256 of the file as hex */
+  sha256?: string
+}
+
+/**
+ * Use case accepted by `LLMEngine.getModelForUseCase()`
+ */
+export type UseCase = keyof typeof RECOMMENDED_MODELS
+
 /**
  * Options for engine initialization
  */
@@ -234,11 +486,18 @@ export interface EngineOptions {
   /** Model to use (model ID, alias, or path to .gguf file) */
   model: string
 
-  /** GPU layers to offload (-1 = all, 0 = CPU only) */
-  gpuLayers?: number
+  /**
+   * Quantization variant to load, e.g. "Q8_0" (default: the model's `quantization`)
+   *
+   * Only for registered models; see the model's `variants` for what is available.
+   */
+  quantization?: string
+
+  /** GPU layers to offload (-1 = all, 0 = CPU only, "auto" = as many as node-llama-cpp fits in free VRAM) */
+  gpuLayers?: number | "auto"
 
-  /** Context size override */
-  contextSize?: number
+  /** Context size override ("auto" = the largest node-llama-cpp fits in free memory) */
+  contextSize?: number | "auto"
 
   /**
    * HuggingFace access token for gated models (like Gemma 3)
@@ -246,12 +505,103 @@ export interface EngineOptions {
    */
   huggingFaceToken?: string
 
+  /** Directory models are downloaded to and loaded from (default: `~/.node-llama-cpp/models`) */
+  cacheDir?: string
+
+  /**
+   * Never download models
+   *
+   * `initialize()` fails with `ModelNotCachedError` if the model file is not in the cache.
+   */
+  offline?: boolean
+
   /**
-   * Enable thinking/reasoning mode for models that support it (Qwen3, DeepSeek R1)
-   * - When false (default): Disables thinking for faster responses
-   * - When true: Shows chain-of-thought reasoning (slower but more detailed)
+   * Default thinking/reasoning mode for models that support it (Qwen3, DeepSeek R1)
+   * - When false: Disables thinking for faster responses
+   * - When true: Thinks before answering (slower but more detailed)
+   * - When unset: Qwen3 answers directly, DeepSeek R1 thinks
+   *
+   * Can be overridden per call with `GenerateOptions.enableThinking`.
    */
   enableThinking?: boolean
+
+  /**
+   * Maximum number of parallel context sequences (default: the larger of
+   * `maxConcurrency` and `prefixCache.maxEntries`)
+   *
+   * `generate()`, `chat()` and friends reserve the larger of `maxConcurrency`
+   * and `prefixCache.maxEntries`; open conversations use one each of the rest,
+   * so raise this to use conversations. Each sequence needs its own KV cache
+   * memory.
+   */
+  maxSequences?: number
+
+  /**
+   * Maximum number of `generate()`/`chat()` requests running at once (default: 1)
+   *
+   * Further requests wait in a queue. Must not exceed `maxSequences`.
+   */
+  maxConcurrency?: number
+
+  /**
+   * Maximum number of queued requests (default: unlimited)
+   *
+   * Requests beyond this limit are rejected with `EngineOverloadedError`.
+   */
+  maxQueueLength?: number
+
+  /**
+   * What to do when the chat history and the answer no longer fit in the context
+   * - `"error"`: Throw `ContextOverflowError`
+   * - `"truncate-oldest"`: Drop the oldest turns, keeping the system prompt (default)
+   * - `"summarize"`: Replace the oldest turns with a summary written by the model
+   *
+   * Can be overridden per conversation.
+   */
+  contextStrategy?: ContextStrategy
+
+  /** Called when older turns were dropped or summarized to make room */
+  onContextTrim?: (event: ContextTrimEvent) => void
+
+  /**
+   * Reuse evaluated system prompts across requests (default: enabled)
+   *
+   * Requests are sent to the sequence that last evaluated the same system
+   * prompt, so only the rest of the prompt is evaluated. Set to `false` to
+   * disable.
+   */
+  prefixCache?: false | PrefixCacheOptions
+
+  /**
+   * How `generate()` and `chat()` treat earlier calls (default: "stateful" when
+   * the engine pools a single session, "stateless" otherwise)
+   * - `"stateful"`: `generate()` continues the history of earlier calls, and
+   *   `chat()` keeps the evaluated part of the history that matches its messages.
+   *   A `systemPrompt` on `generate()` starts the history over.
+   * - `"stateless"`: Every call starts from an empty history, so results do not
+   *   depend on call order
+   *
+   * Stateful mode needs every call on the same session, so it cannot be combined
+   * with a `maxConcurrency` or `prefixCache.maxEntries` above 1. Conversations
+   * always keep their own history.
+   */
+  mode?: "stateless" | "stateful"
+}
+
+/**
+ * Limits of the prompt-prefix cache
+ */
+export interface PrefixCacheOptions {
+  /**
+   * Number of system prompts kept evaluated (default: `maxConcurrency`)
+   *
+   * Each one occupies a context sequence, so values above `maxConcurrency`
+   * keep extra sequences around. Must not exceed `maxSequences`.
+   */
+  maxEntries?: number
+
+  /** Maximum total tokens of kept system prompts (default: unlimited) */
+  maxTokens?: number
 }
 
 /**
@@ -276,40 +626,461 @@ export interface GenerateOptions {
   /** Top-k sampling */
   topK?: number
 
+  /** Min-p sampling: drop tokens less likely than `minP` times the most likely token */
+  minP?: number
+
   /** Repetition penalty */
   repeatPenalty?: number
 
-  /** Stop sequences */
+  /** Penalty for tokens that already appeared, however often (default: 0) */
+  presencePenalty?: number
+
+  /** Penalty that grows with the number of times a token already appeared (default: 0) */
+  frequencyPenalty?: number
+
+  /** Number of recent tokens the repetition penalties look at (default: 64) */
+  lastTokens?: number
+
+  /**
+   * Random seed for sampling
+   *
+   * The same seed, prompt, history and options give the same output. Has no
+   * effect with `temperature: 0`, which is deterministic anyway.
+   */
+  seed?: number
+
+  /** Make tokens more or less likely, or ban them */
+  logitBias?: LogitBias[]
+
+  /**
+   * Strings that must not be generated
+   *
+   * A single-token string is never generated. For longer strings the last
+   * token is banned once the ones before it were generated, so the model
+   * picks a different continuation.
+   */
+  bannedStrings?: string[]
+
+  /**
+   * Return log probabilities of the answer tokens, with this many top alternatives each
+   *
+   * `0` returns only the chosen tokens. Probabilities are taken from the
+   * sampler, so they reflect `temperature`, `topK`, `topP` and `minP`.
+   */
+  logprobs?: number
+
+  /** Enable thinking for this call, overriding `EngineOptions.enableThinking` */
+  enableThinking?: boolean
+
+  /**
+   * Maximum number of thought tokens
+   *
+   * Once reached, the thought segment is closed and the model has to answer.
+   * Thought tokens count towards `maxTokens`.
+   */
+  thinkingBudget?: number
+
+  /**
+   * Stop sequences
+   *
+   * Generation ends as soon as one of these strings is produced. The matched
+   * sequence is not included in the result text or passed to streaming callbacks.
+   */
   stop?: string[]
+
+  /**
+   * Scheduling priority; higher runs first, equal priorities run in call order (default: 0)
+   */
+  priority?: number
+
+  /**
+   * Signal to cancel generation
+   *
+   * Requests aborted while still queued never start; they resolve with an
+   * empty text and `finishReason: "abort"`, or reject with
+   * `GenerationAbortedError` when `throwOnAbort` is set.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Cancel generation after this many milliseconds
+   *
+   * Model loading and time spent in the engine's queue are not included.
+   */
+  timeoutMs?: number
+
+  /**
+   * Throw a `GenerationAbortedError` when generation is cancelled
+   *
+   * By default a cancelled generation resolves with the partial text and
+   * `finishReason: "abort"`.
+   */
+  throwOnAbort?: boolean
+}
+
+/**
+ * Adjusts how likely a token is to be generated
+ */
+export interface LogitBias {
+  /** Token id, or a text whose tokens are all adjusted */
+  token: number | string
+
+  /** Value added to the token's logit; `"never"` bans the token */
+  bias: number | "never"
 }
 
+/**
+ * Why generation ended
+ *
+ * - `stop`: End-of-sequence token or a stop sequence was generated
+ * - `length`: `maxTokens` was reached
+ * - `abort`: Generation was cancelled
+ * - `error`: Generation ended for any other reason
+ */
+export type FinishReason = "stop" | "length" | "abort" | "error"
+
 /**
  * Result of text generation
  */
 export interface GenerateResult {
-  /** Generated text */
+  /** Generated answer text, without reasoning */
   text: string
 
-  /** Number of tokens generated */
+  /** Reasoning the model produced before answering (only set by thinking models) */
+  thinking?: string
+
+  /** Number of tokens generated (including thought tokens) */
   tokenCount: number
 
-  /** Prompt token count */
+  /** Prompt token count, including the rendered chat template, system prompt and history */
   promptTokenCount: number
 
+  /** Prompt tokens reused from the sequence's KV cache instead of being evaluated again */
+  cachedPromptTokens: number
+
+  /**
+   * Whether the system prompt was already evaluated on the chosen sequence
+   *
+   * Only set for engine requests with a system prompt while the prefix cache is enabled.
+   */
+  prefixCacheHit?: boolean
+
   /** Time taken in seconds */
   durationSeconds: number
 
-  /** Tokens per second */
+  /** Time spent waiting in the engine's queue before generation started, in seconds */
+  queueWaitSeconds: number
+
+  /** Time spent evaluating the prompt before the first token was generated, in seconds */
+  promptEvalSeconds: number
+
+  /** Time until the first text chunk of the answer was emitted, in seconds */
+  timeToFirstTokenSeconds: number
+
+  /** Prompt evaluation throughput (prompt tokens evaluated per second, excludes cached tokens) */
+  promptTokensPerSecond: number
+
+  /** Decode throughput (generated tokens per second after the first token) */
   tokensPerSecond: number
 
-  /** Finish reason: 'stop', 'length', 'error' */
-  finishReason: "stop" | "length" | "error"
+  /** Why generation ended */
+  finishReason: FinishReason
+
+  /** The stop sequence that ended generation, if any */
+  stopSequence?: string
+
+  /** Tool calls made during `chat()`, in call order (only set when tools were given) */
+  toolCalls?: ToolCall[]
+
+  /** Log probabilities of the answer tokens (only set when `logprobs` was given) */
+  logprobs?: TokenLogprob[]
 
   /** Model used */
   model: string
 }
 
+/**
+ * A candidate token and its log probability
+ */
+export interface TopLogprob {
+  /** Token text */
+  token: string
+
+  /** Token id */
+  id: number
+
+  /** Natural log of the token's probability */
+  logprob: number
+}
+
+/**
+ * A generated token with its log probability and the most likely alternatives
+ */
+export interface TokenLogprob extends TopLogprob {
+  /** Most likely candidates at this position, most likely first; includes the chosen token if it ranks */
+  topLogprobs: TopLogprob[]
+}
+
+/**
+ * JSON Schema accepted by `generateObject()`
+ *
+ * Supports the subset of JSON Schema that can be compiled into a llama.cpp grammar:
+ * objects, arrays, strings, numbers, booleans, null, `enum`, `const` and `oneOf`.
+ */
+export type JsonSchema = GbnfJsonSchema
+
+/**
+ * TypeScript type described by a JSON Schema
+ */
+export type JsonSchemaToType<Schema extends JsonSchema> = GbnfJsonSchemaToType<Schema>
+
+/**
+ * Options for structured output generation
+ */
+export interface GenerateObjectOptions<Schema extends JsonSchema> extends Omit<
+  GenerateOptions,
+  "stop" | "throwOnAbort"
+> {
+  /** JSON Schema the generated output must match */
+  schema: Schema
+}
+
+/**
+ * Result of structured output generation
+ */
+export interface GenerateObjectResult<T> extends GenerateResult {
+  /** Parsed value matching the schema */
+  object: T
+}
+
+/**
+ * Arguments passed to a tool handler, typed from its parameter schema
+ */
+export type ToolArguments<Params extends JsonSchema | undefined> = Params extends JsonSchema
+  ? JsonSchemaToType<Params>
+  : undefined
+
+/**
+ * A tool (function) the model can call during `chat()`
+ */
+export interface Tool<Params extends JsonSchema | undefined = JsonSchema | undefined> {
+  /** Unique tool name the model uses to call it */
+  name: string
+
+  /** What the tool does; shown to the model */
+  description?: string
+
+  /** JSON Schema of the tool arguments */
+  parameters?: Params
+
+  /** Executes the call; the return value is sent back to the model as JSON */
+  handler(args: ToolArguments<Params>): unknown
+}
+
+/**
+ * A tool with any parameter schema
+ *
+ * Handler arguments make `Tool` invariant in its schema, so collections of
+ * differently typed tools use this type (as node-llama-cpp does for functions).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyTool = Tool<any>
+
+/**
+ * A tool call made by the model
+ */
+export interface ToolCall {
+  /** Name of the called tool */
+  name: string
+
+  /** Arguments the model passed */
+  arguments: unknown
+
+  /** Value returned by the handler */
+  result: unknown
+
+  /** Error message if the handler threw */
+  error?: string
+}
+
+/**
+ * A message in a chat conversation
+ *
+ * Assistant messages may carry the tool calls made while producing them, so a
+ * conversation that used tools can be replayed.
+ */
+export type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+
+/**
+ * Options for `chat()`
+ */
+export interface ChatOptions extends Omit<GenerateOptions, "prompt" | "systemPrompt"> {
+  /** Tools the model may call before answering */
+  tools?: readonly AnyTool[]
+}
+
+/**
+ * Options for `generateBatch()`
+ */
+export interface BatchOptions {
+  /**
+   * Maximum number of items generated in parallel (default: `maxConcurrency`)
+   *
+   * Items run through the engine's queue, so this must not exceed the
+   * engine's `maxConcurrency`.
+   */
+  concurrency?: number
+
+  /** Called after each item finished, in completion order */
+  onProgress?: (progress: BatchProgress) => void
+}
+
+/**
+ * Outcome of a single `generateBatch()` item
+ */
+export type BatchItemResult = { ok: true; result: GenerateResult } | { ok: false; error: Error }
+
+/**
+ * Progress report emitted by `generateBatch()`
+ */
+export interface BatchProgress {
+  /** Position of the finished item in the input array */
+  index: number
+
+  /** Outcome of the finished item */
+  item: BatchItemResult
+
+  /** Number of finished items, including this one */
+  completed: number
+
+  /** Number of items in the batch */
+  total: number
+}
+
+/**
+ * How to combine the vectors of a text that is longer than the embedding context
+ *
+ * - `mean`: Average the vectors of all chunks
+ * - `max`: Take the maximum of each dimension across chunks
+ * - `first`: Only embed the first chunk (the rest of the text is ignored)
+ *
+ * Pooling of the tokens within a chunk is fixed by the model file.
+ */
+export type EmbeddingPooling = "mean" | "max" | "first"
+
+/**
+ * Options for `embed()`
+ */
+export interface EmbedOptions {
+  /** Scale vectors to unit length, so a dot product equals cosine similarity (default: true) */
+  normalize?: boolean
+
+  /** How to combine chunk vectors of long texts (default: "mean") */
+  pooling?: EmbeddingPooling
+}
+
+/**
+ * Options for `rerank()`
+ */
+export interface RerankOptions {
+  /** Return only the best N documents (default: all) */
+  topN?: number
+}
+
+/**
+ * One ranked document from `rerank()`
+ */
+export interface RerankResult {
+  /** Position of the document in the input array */
+  index: number
+
+  /** Relevance to the query; 0 to 1 for reranker models, -1 to 1 for the embedding fallback */
+  score: number
+
+  /** The document text */
+  document: string
+}
+
+/**
+ * Options for `createConversation()`
+ */
+export interface ConversationOptions {
+  /** System prompt kept at the start of the conversation, also across `reset()` */
+  systemPrompt?: string
+
+  /** What to do when the history no longer fits (default: the engine's `contextStrategy`) */
+  contextStrategy?: ContextStrategy
+
+  /** Called when older turns were dropped or summarized (default: the engine's `onContextTrim`) */
+  onContextTrim?: (event: ContextTrimEvent) => void
+}
+
+/**
+ * Options for `exportSession()`
+ */
+export interface ExportSessionOptions {
+  /** Also save the evaluated context state to this file */
+  stateFile?: string
+}
+
+/**
+ * Options for `importSession()`
+ *
+ * The system prompt is taken from the exported messages.
+ */
+export interface ImportSessionOptions extends Omit<ConversationOptions, "systemPrompt"> {
+  /** Restore the context state saved by `exportSession()` from this file */
+  stateFile?: string
+
+  /**
+   * Confirm that `stateFile` was saved with the same model
+   *
+   * Required with `stateFile`: loading a state file written by another model
+   * can crash the process, and node-llama-cpp cannot tell them apart.
+   */
+  acceptRisk?: boolean
+}
+
+/**
+ * How to make room when the history no longer fits in the context
+ */
+export type ContextStrategy = "error" | "truncate-oldest" | "summarize"
+
+/**
+ * Reports older turns that were removed from the history to make room
+ */
+export interface ContextTrimEvent {
+  /** The strategy that removed them */
+  strategy: "truncate-oldest" | "summarize"
+
+  /** Removed messages, oldest first */
+  droppedMessages: ChatMessage[]
+
+  /** Summary that replaced them, for the `"summarize"` strategy */
+  summary?: string
+}
+
 /**
  * Streaming token callback
  */
 export type TokenCallback = (token: string) => void
+
+/**
+ * Event emitted by `LLMEngine.stream()`
+ *
+ * - `token`: A chunk of the answer text, with its tokens' log probabilities if `logprobs` was given
+ * - `thought`: A chunk of the model's reasoning (thinking-mode models)
+ * - `contextTrim`: Older turns were dropped or summarized before generating
+ * - `usage`: Final token counts, emitted right before `done`
+ * - `done`: Generation finished; carries the full result
+ * - `error`: Generation failed; always the last event
+ */
+export type StreamEvent =
+  | { type: "token"; text: string; logprobs?: TokenLogprob[] }
+  | { type: "thought"; text: string }
+  | ({ type: "contextTrim" } & ContextTrimEvent)
+  | { type: "usage"; promptTokenCount: number; tokenCount: number }
+  | { type: "done"; result: GenerateResult }
+  | { type: "error"; error: Error }